@@ -4,7 +4,19 @@ import { AuthPage } from './components/AuthPage';
 import { MainFeed } from './components/MainFeed';
 import { SearchPage } from './components/SearchPage';
 import { ProfilePage } from './components/ProfilePage';
+import { SettingsPage } from './components/SettingsPage';
+import { PostDetailPage } from './components/PostDetailPage';
+import { HashtagPage } from './components/HashtagPage';
+import { NotificationsPage } from './components/NotificationsPage';
+import { MessagesPage } from './components/MessagesPage';
+import { ConversationPage } from './components/ConversationPage';
+import { BookmarksPage } from './components/BookmarksPage';
+import { ModerationPage } from './components/ModerationPage';
+import { AdminPage } from './components/AdminPage';
+import { AppLayout } from './components/AppLayout';
+import { Card } from './components/ui/card';
 import { getSupabaseClient } from './utils/supabase/client';
+import { useRoute, navigate, feedPath, type Route } from './utils/router';
 
 const supabase = getSupabaseClient();
 
@@ -12,7 +24,7 @@ export default function App() {
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [isCheckingSession, setIsCheckingSession] = useState(true);
-  const [currentPage, setCurrentPage] = useState<'feed' | 'search' | 'profile'>('feed');
+  const route = useRoute();
 
   // Check for existing session on mount
   useEffect(() => {
@@ -64,14 +76,13 @@ export default function App() {
   const handleAuthSuccess = (token: string, id: string) => {
     setAccessToken(token);
     setUserId(id);
-    setCurrentPage('feed');
   };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setAccessToken(null);
     setUserId(null);
-    setCurrentPage('feed');
+    navigate(feedPath(), { replace: true });
   };
 
   const refreshAccessToken = async () => {
@@ -101,8 +112,39 @@ export default function App() {
     }
   };
 
-  const handleNavigate = (page: 'feed' | 'search' | 'profile') => {
-    setCurrentPage(page);
+  const renderPage = (currentRoute: Route, token: string, currentUserId: string) => {
+    switch (currentRoute.name) {
+      case 'feed':
+        return <MainFeed accessToken={token} userId={currentUserId} />;
+      case 'search':
+        return <SearchPage accessToken={token} userId={currentUserId} query={currentRoute.query} />;
+      case 'profile':
+        return <ProfilePage key={currentRoute.userId} accessToken={token} userId={currentUserId} profileUserId={currentRoute.userId} />;
+      case 'post':
+        return <PostDetailPage key={currentRoute.postId} accessToken={token} userId={currentUserId} postId={currentRoute.postId} />;
+      case 'hashtag':
+        return <HashtagPage key={currentRoute.tag} accessToken={token} userId={currentUserId} tag={currentRoute.tag} />;
+      case 'settings':
+        return <SettingsPage userId={currentUserId} onLogout={handleLogout} />;
+      case 'notifications':
+        return <NotificationsPage />;
+      case 'bookmarks':
+        return <BookmarksPage accessToken={token} userId={currentUserId} collectionId={currentRoute.collectionId} />;
+      case 'messages':
+        return <MessagesPage userId={currentUserId} />;
+      case 'conversation':
+        return <ConversationPage key={currentRoute.conversationId} userId={currentUserId} conversationId={currentRoute.conversationId} />;
+      case 'moderation':
+        return <ModerationPage />;
+      case 'admin':
+        return <AdminPage userId={currentUserId} />;
+      default:
+        return (
+          <Card className="p-8 text-center">
+            <p className="text-gray-500">Halaman tidak ditemukan</p>
+          </Card>
+        );
+    }
   };
 
   // Show loading while checking session
@@ -131,27 +173,9 @@ export default function App() {
   return (
     <>
       <div className="size-full">
-        <MainFeed
-          accessToken={accessToken}
-          userId={userId}
-          onLogout={handleLogout}
-          onNavigate={handleNavigate}
-          currentPage={currentPage}
-        />
-        <SearchPage
-          accessToken={accessToken}
-          userId={userId}
-          onLogout={handleLogout}
-          onNavigate={handleNavigate}
-          currentPage={currentPage}
-        />
-        <ProfilePage
-          accessToken={accessToken}
-          userId={userId}
-          onLogout={handleLogout}
-          onNavigate={handleNavigate}
-          currentPage={currentPage}
-        />
+        <AppLayout route={route} userId={userId} onLogout={handleLogout}>
+          {renderPage(route, accessToken, userId)}
+        </AppLayout>
       </div>
       <Toaster />
     </>
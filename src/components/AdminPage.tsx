@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Search } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, putWithAuth, postWithAuth, deleteWithAuth } from '../utils/api';
+import { Link, profilePath } from '../utils/router';
+
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+export const roleLabels: Record<UserRole, string> = {
+  user: 'Pengguna',
+  moderator: 'Moderator',
+  admin: 'Admin'
+};
+
+interface ManagedUser {
+  id: string;
+  name: string;
+  handle?: string;
+  avatar?: string;
+  role: UserRole;
+  suspendedAt: string | null;
+}
+
+interface AdminPageProps {
+  userId: string;
+}
+
+export function AdminPage({ userId }: AdminPageProps) {
+  const [query, setQuery] = useState('');
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  // Tanpa kata kunci, server menampilkan akun dengan peran khusus atau yang ditangguhkan
+  useEffect(() => {
+    fetchUsers('');
+  }, []);
+
+  const fetchUsers = async (searchQuery: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getWithAuth(`/admin/users?q=${encodeURIComponent(searchQuery)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'Halaman ini hanya untuk admin' : data.error || 'Gagal memuat pengguna');
+      }
+
+      setUsers(data.users || []);
+    } catch (error: any) {
+      console.error('Fetch managed users error:', error);
+      toast.error(error.message || 'Gagal memuat pengguna');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchUsers(query.trim());
+  };
+
+  const updateUser = async (user: ManagedUser, request: () => Promise<Response>, successMessage: string) => {
+    setPendingUserId(user.id);
+    try {
+      const response = await request();
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memperbarui pengguna');
+      }
+
+      setUsers(prev => prev.map(u => u.id === user.id ? data.user : u));
+      toast.success(successMessage);
+    } catch (error: any) {
+      console.error('Update managed user error:', error);
+      toast.error(error.message || 'Gagal memperbarui pengguna');
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: UserRole) => {
+    updateUser(user, () => putWithAuth(`/admin/users/${user.id}/role`, { role }), `Peran diubah menjadi ${roleLabels[role]}`);
+  };
+
+  const handleToggleSuspension = (user: ManagedUser) => {
+    if (user.suspendedAt) {
+      updateUser(user, () => deleteWithAuth(`/admin/users/${user.id}/suspension`), 'Penangguhan dicabut');
+    } else if (window.confirm(`Tangguhkan ${user.name}? Akun ini tidak akan bisa memposting atau berinteraksi.`)) {
+      updateUser(user, () => postWithAuth(`/admin/users/${user.id}/suspension`, {}), 'Akun ditangguhkan');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-gray-900">Kelola pengguna</h2>
+
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <Input
+          placeholder="Cari nama atau @handle"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Button type="submit" disabled={isLoading}>
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {users.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Tidak ada pengguna yang ditemukan</p>
+        </Card>
+      ) : (
+        <Card className="divide-y overflow-hidden shadow-md">
+          {users.map(user => (
+            <div key={user.id} className="flex flex-wrap items-center gap-3 p-4">
+              <Link to={profilePath(user.id)} className="flex min-w-0 flex-1 items-center gap-3">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={user.avatar} />
+                  <AvatarFallback className="bg-blue-500 text-white">
+                    {user.name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-gray-900">{user.name}</p>
+                  {user.handle && <p className="truncate text-sm text-gray-500">@{user.handle}</p>}
+                </div>
+                {user.suspendedAt && <Badge variant="destructive">Ditangguhkan</Badge>}
+              </Link>
+              {user.id !== userId && (
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={user.role}
+                    onValueChange={(role) => handleRoleChange(user, role as UserRole)}
+                    disabled={pendingUserId === user.id}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant={user.suspendedAt ? 'outline' : 'destructive'}
+                    disabled={pendingUserId === user.id}
+                    onClick={() => handleToggleSuspension(user)}
+                  >
+                    {user.suspendedAt ? 'Cabut penangguhan' : 'Tangguhkan'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat pengguna...</p>
+        </Card>
+      )}
+    </div>
+  );
+}
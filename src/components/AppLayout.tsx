@@ -0,0 +1,113 @@
+import { Button } from './ui/button';
+import { Home, Search, User, LogOut, Settings, Bell, Mail, Bookmark } from 'lucide-react';
+import { CrowLogo } from './CrowLogo';
+import { Link, feedPath, searchPath, profilePath, settingsPath, notificationsPath, messagesPath, bookmarksPath, type Route } from '../utils/router';
+import { useUnreadNotificationCount } from '../utils/notifications';
+import { useUnreadMessageCount } from '../utils/messages';
+
+interface AppLayoutProps {
+  route: Route;
+  userId: string;
+  onLogout: () => void;
+  children: React.ReactNode;
+}
+
+export function AppLayout({ route, userId, onLogout, children }: AppLayoutProps) {
+  const isFeed = route.name === 'feed';
+  const isSearch = route.name === 'search';
+  const isOwnProfile = route.name === 'profile' && route.userId === userId;
+  const isMessages = route.name === 'messages' || route.name === 'conversation';
+  const unreadCount = useUnreadNotificationCount(route);
+  const unreadMessageCount = useUnreadMessageCount(route);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10 shadow-sm">
+        <div className="max-w-2xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link to={feedPath()} className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <CrowLogo size={32} className="text-gray-900" />
+            Crow
+          </Link>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={route.name === 'bookmarks' ? 'secondary' : 'ghost'}
+              size="icon"
+              asChild
+            >
+              <Link to={bookmarksPath()} aria-label="Tersimpan">
+                <Bookmark className="h-5 w-5" />
+              </Link>
+            </Button>
+            <Button
+              variant={route.name === 'notifications' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="relative"
+              asChild
+            >
+              <Link to={notificationsPath()} aria-label="Notifikasi">
+                <Bell className="h-5 w-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-5 rounded-full bg-red-500 px-1 text-center text-xs font-semibold text-white">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Link>
+            </Button>
+            <Button
+              variant={route.name === 'settings' ? 'secondary' : 'ghost'}
+              size="icon"
+              asChild
+            >
+              <Link to={settingsPath()} aria-label="Pengaturan">
+                <Settings className="h-5 w-5" />
+              </Link>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onLogout}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 py-6 pb-24">
+        {children}
+      </div>
+
+      {/* Bottom Navigation */}
+      <nav className="fixed bottom-0 left-0 right-0 bg-white border-t shadow-lg">
+        <div className="max-w-2xl mx-auto px-4 py-3 flex justify-around">
+          <Button variant={isFeed ? 'default' : 'ghost'} size="sm" asChild>
+            <Link to={feedPath()}>
+              <Home className="h-5 w-5 mr-2" />
+              Beranda
+            </Link>
+          </Button>
+          <Button variant={isSearch ? 'default' : 'ghost'} size="sm" asChild>
+            <Link to={searchPath()}>
+              <Search className="h-5 w-5 mr-2" />
+              Cari
+            </Link>
+          </Button>
+          <Button variant={isMessages ? 'default' : 'ghost'} size="sm" className="relative" asChild>
+            <Link to={messagesPath()}>
+              <Mail className="h-5 w-5 mr-2" />
+              Pesan
+              {unreadMessageCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 rounded-full bg-red-500 px-1 text-center text-xs font-semibold text-white">
+                  {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                </span>
+              )}
+            </Link>
+          </Button>
+          <Button variant={isOwnProfile ? 'default' : 'ghost'} size="sm" asChild>
+            <Link to={profilePath(userId)}>
+              <User className="h-5 w-5 mr-2" />
+              Profil
+            </Link>
+          </Button>
+        </div>
+      </nav>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -8,6 +8,7 @@ import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { getSupabaseClient } from '../utils/supabase/client';
 import { toast } from 'sonner@2.0.3';
 import { CrowLogo } from './CrowLogo';
+import { HANDLE_PATTERN, normalizeHandle, isHandleAvailable } from '../utils/handle';
 
 const supabase = getSupabaseClient();
 
@@ -22,11 +23,48 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
   const [registerEmail, setRegisterEmail] = useState('');
   const [registerPassword, setRegisterPassword] = useState('');
   const [registerName, setRegisterName] = useState('');
+  const [registerHandle, setRegisterHandle] = useState('');
+  const [handleStatus, setHandleStatus] = useState<'idle' | 'checking' | 'available' | 'taken' | 'invalid'>('idle');
   
   // Login form
   const [loginEmail, setLoginEmail] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
 
+  // Cek ketersediaan handle sambil mengetik, setelah jeda singkat
+  useEffect(() => {
+    const handle = normalizeHandle(registerHandle);
+    if (!handle) {
+      setHandleStatus('idle');
+      return;
+    }
+
+    if (!HANDLE_PATTERN.test(handle)) {
+      setHandleStatus('invalid');
+      return;
+    }
+
+    setHandleStatus('checking');
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const available = await isHandleAvailable(handle);
+        if (!isCancelled) {
+          setHandleStatus(available ? 'available' : 'taken');
+        }
+      } catch (error) {
+        console.error('Check handle error:', error);
+        if (!isCancelled) {
+          setHandleStatus('idle');
+        }
+      }
+    }, 300);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [registerHandle]);
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -35,6 +73,16 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
       return;
     }
     
+    if (!HANDLE_PATTERN.test(normalizeHandle(registerHandle))) {
+      toast.error('Handle harus 3-20 karakter berupa huruf kecil, angka atau garis bawah');
+      return;
+    }
+    
+    if (handleStatus === 'taken') {
+      toast.error('Handle sudah dipakai');
+      return;
+    }
+    
     if (!registerEmail.trim()) {
       toast.error('Email harus diisi');
       return;
@@ -60,7 +108,8 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
           body: JSON.stringify({
             email: registerEmail,
             password: registerPassword,
-            name: registerName
+            name: registerName,
+            handle: normalizeHandle(registerHandle)
           })
         }
       );
@@ -77,6 +126,7 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
       setRegisterEmail('');
       setRegisterPassword('');
       setRegisterName('');
+      setRegisterHandle('');
       
       // Auto switch to login tab
       document.querySelector('[value="login"]')?.dispatchEvent(new Event('click', { bubbles: true }));
@@ -190,6 +240,36 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-handle">Handle</Label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">@</span>
+                    <Input
+                      id="register-handle"
+                      type="text"
+                      placeholder="username"
+                      value={registerHandle}
+                      onChange={(e) => setRegisterHandle(e.target.value)}
+                      disabled={isLoading}
+                      className="pl-7"
+                      autoCapitalize="none"
+                      autoComplete="username"
+                      required
+                    />
+                  </div>
+                  {handleStatus === 'checking' && (
+                    <p className="text-xs text-gray-500">Mengecek ketersediaan...</p>
+                  )}
+                  {handleStatus === 'available' && (
+                    <p className="text-xs text-green-600">Handle tersedia</p>
+                  )}
+                  {handleStatus === 'taken' && (
+                    <p className="text-xs text-red-500">Handle sudah dipakai</p>
+                  )}
+                  {handleStatus === 'invalid' && (
+                    <p className="text-xs text-red-500">3-20 karakter: huruf kecil, angka atau garis bawah</p>
+                  )}
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="register-email">Email</Label>
                   <Input
@@ -214,7 +294,7 @@ export function AuthPage({ onAuthSuccess }: AuthPageProps) {
                     required
                   />
                 </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
+                <Button type="submit" className="w-full" disabled={isLoading || handleStatus === 'taken' || handleStatus === 'invalid'}>
                   {isLoading ? 'Memproses...' : 'Daftar'}
                 </Button>
               </form>
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { Bookmark, Folder } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, postWithAuth, putWithAuth } from '../utils/api';
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface BookmarkButtonProps {
+  postId: string;
+  // Status awal dari data postingan, supaya tidak perlu mengecek ke server per kartu
+  bookmarked: boolean;
+  collectionId: string | null;
+  onChange?: (bookmarked: boolean, collectionId: string | null) => void;
+}
+
+export function BookmarkButton({ postId, bookmarked, collectionId: initialCollectionId, onChange }: BookmarkButtonProps) {
+  const [isBookmarked, setIsBookmarked] = useState(bookmarked);
+  const [collectionId, setCollectionId] = useState<string | null>(initialCollectionId);
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Koleksi baru dimuat saat menu dibuka supaya daftar selalu terbaru
+  const fetchCollections = async () => {
+    try {
+      const response = await getWithAuth('/bookmarks/collections');
+      const data = await response.json();
+
+      if (response.ok) {
+        setCollections(data.collections || []);
+      }
+    } catch (error) {
+      console.error('Fetch collections error:', error);
+    }
+  };
+
+  const saveBookmark = async (request: () => Promise<Response>, successMessage: (bookmarked: boolean) => string) => {
+    setIsSaving(true);
+    try {
+      const response = await request();
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menyimpan postingan');
+      }
+
+      setIsBookmarked(data.bookmarked);
+      setCollectionId(data.collectionId);
+      onChange?.(data.bookmarked, data.collectionId);
+      toast.success(successMessage(data.bookmarked));
+    } catch (error: any) {
+      console.error('Bookmark error:', error);
+      toast.error(error.message || 'Gagal menyimpan postingan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = (targetCollectionId: string | null = null) => saveBookmark(
+    () => postWithAuth(`/posts/${postId}/bookmark`, { collectionId: targetCollectionId }),
+    (bookmarked) => bookmarked ? 'Postingan disimpan' : 'Postingan dihapus dari Tersimpan'
+  );
+
+  const handleMove = (targetCollectionId: string | null) => saveBookmark(
+    () => putWithAuth(`/posts/${postId}/bookmark`, { collectionId: targetCollectionId }),
+    () => 'Postingan dipindahkan'
+  );
+
+  const collectionName = collections.find(collection => collection.id === collectionId)?.name;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchCollections()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isSaving}
+          aria-label="Simpan"
+          className={`flex items-center gap-2 transition-all ${
+            isBookmarked
+              ? 'text-blue-500 hover:text-blue-600 hover:bg-blue-50'
+              : 'text-gray-500 hover:text-blue-500 hover:bg-blue-50'
+          }`}
+        >
+          <Bookmark className={`h-5 w-5 ${isBookmarked ? 'fill-current' : ''}`} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {isBookmarked ? (
+          <>
+            <DropdownMenuItem onSelect={() => handleToggle()}>
+              <Bookmark className="h-4 w-4 mr-2" />
+              Hapus dari Tersimpan
+            </DropdownMenuItem>
+            {collections.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>
+                  {collectionName ? `Di koleksi ${collectionName}` : 'Pindahkan ke koleksi'}
+                </DropdownMenuLabel>
+                {collectionId && (
+                  <DropdownMenuItem onSelect={() => handleMove(null)}>
+                    Keluarkan dari koleksi
+                  </DropdownMenuItem>
+                )}
+                {collections.filter(collection => collection.id !== collectionId).map(collection => (
+                  <DropdownMenuItem key={collection.id} onSelect={() => handleMove(collection.id)}>
+                    <Folder className="h-4 w-4 mr-2" />
+                    {collection.name}
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+          </>
+        ) : (
+          <>
+            <DropdownMenuItem onSelect={() => handleToggle()}>
+              <Bookmark className="h-4 w-4 mr-2" />
+              Simpan
+            </DropdownMenuItem>
+            {collections.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Simpan ke koleksi</DropdownMenuLabel>
+                {collections.map(collection => (
+                  <DropdownMenuItem key={collection.id} onSelect={() => handleToggle(collection.id)}>
+                    <Folder className="h-4 w-4 mr-2" />
+                    {collection.name}
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Bookmark, FolderPlus, Pencil, Trash2 } from 'lucide-react';
+import { PostCard, type Post } from './PostCard';
+import { type BookmarkCollection } from './BookmarkButton';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, postWithAuth, putWithAuth, deleteWithAuth } from '../utils/api';
+import { navigate, bookmarksPath } from '../utils/router';
+
+// Sama dengan batasan di server
+const MAX_COLLECTION_NAME_LENGTH = 50;
+
+interface BookmarksPageProps {
+  accessToken: string;
+  userId: string;
+  collectionId: string | null;
+}
+
+export function BookmarksPage({ accessToken, userId, collectionId }: BookmarksPageProps) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  // null: dialog tertutup, 'new': membuat koleksi, 'rename': mengganti nama koleksi yang dipilih
+  const [collectionDialog, setCollectionDialog] = useState<'new' | 'rename' | null>(null);
+  const [collectionName, setCollectionName] = useState('');
+  const [isSavingCollection, setIsSavingCollection] = useState(false);
+
+  useEffect(() => {
+    fetchCollections();
+  }, []);
+
+  useEffect(() => {
+    setPosts([]);
+    fetchPosts();
+  }, [collectionId]);
+
+  const fetchCollections = async () => {
+    try {
+      const response = await getWithAuth('/bookmarks/collections');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat koleksi');
+      }
+
+      setCollections(data.collections || []);
+    } catch (error: any) {
+      console.error('Fetch collections error:', error);
+      toast.error(error.message || 'Gagal memuat koleksi');
+    }
+  };
+
+  const fetchPosts = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (collectionId) params.set('collectionId', collectionId);
+      if (cursor) params.set('cursor', cursor);
+
+      const query = params.toString() ? `?${params}` : '';
+      const response = await getWithAuth(`/bookmarks${query}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat postingan tersimpan');
+      }
+
+      setPosts(prev => cursor ? [...prev, ...(data.posts || [])] : (data.posts || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch bookmarks error:', error);
+      toast.error(error.message || 'Gagal memuat postingan tersimpan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedCollection = collections.find(collection => collection.id === collectionId);
+
+  const openCollectionDialog = (mode: 'new' | 'rename') => {
+    setCollectionName(mode === 'rename' ? selectedCollection?.name || '' : '');
+    setCollectionDialog(mode);
+  };
+
+  const handleSaveCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!collectionName.trim()) {
+      toast.error('Nama koleksi tidak boleh kosong');
+      return;
+    }
+
+    setIsSavingCollection(true);
+    try {
+      const response = collectionDialog === 'rename' && selectedCollection
+        ? await putWithAuth(`/bookmarks/collections/${selectedCollection.id}`, { name: collectionName })
+        : await postWithAuth('/bookmarks/collections', { name: collectionName });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menyimpan koleksi');
+      }
+
+      if (collectionDialog === 'rename') {
+        setCollections(collections.map(c => c.id === data.collection.id ? data.collection : c));
+      } else {
+        setCollections([...collections, data.collection]);
+        toast.success('Koleksi dibuat');
+      }
+      setCollectionDialog(null);
+    } catch (error: any) {
+      console.error('Save collection error:', error);
+      toast.error(error.message || 'Gagal menyimpan koleksi');
+    } finally {
+      setIsSavingCollection(false);
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!selectedCollection) {
+      return;
+    }
+
+    if (!window.confirm(`Hapus koleksi "${selectedCollection.name}"? Postingan di dalamnya tetap tersimpan.`)) {
+      return;
+    }
+
+    try {
+      const response = await deleteWithAuth(`/bookmarks/collections/${selectedCollection.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus koleksi');
+      }
+
+      setCollections(collections.filter(c => c.id !== selectedCollection.id));
+      toast.success('Koleksi dihapus');
+      navigate(bookmarksPath(), { replace: true });
+    } catch (error: any) {
+      console.error('Delete collection error:', error);
+      toast.error(error.message || 'Gagal menghapus koleksi');
+    }
+  };
+
+  const handleDeletePost = async (postId: string) => {
+    if (!window.confirm('Yakin ingin menghapus postingan ini?')) {
+      return;
+    }
+
+    try {
+      const response = await deleteWithAuth(`/posts/${postId}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus postingan');
+      }
+
+      toast.success(data.message || 'Postingan berhasil dihapus!');
+      setPosts(posts.filter(p => p.id !== postId));
+    } catch (error: any) {
+      console.error('Delete post error:', error);
+      toast.error(error.message || 'Gagal menghapus postingan');
+    }
+  };
+
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts(posts.map(p => p.id === updatedPost.id ? updatedPost : p));
+  };
+
+  const handleBookmarkChange = (postId: string, bookmarked: boolean) => {
+    if (!bookmarked) {
+      setPosts(prev => prev.filter(p => p.id !== postId));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 shadow-md space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="rounded-full bg-blue-50 p-3 text-blue-500">
+              <Bookmark className="h-6 w-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Tersimpan</h2>
+              <p className="text-sm text-gray-500">Hanya Anda yang dapat melihat postingan tersimpan</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openCollectionDialog('new')}>
+            <FolderPlus className="h-4 w-4 mr-2" />
+            Koleksi baru
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={!collectionId ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => navigate(bookmarksPath())}
+          >
+            Semua
+          </Button>
+          {collections.map(collection => (
+            <Button
+              key={collection.id}
+              variant={collection.id === collectionId ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => navigate(bookmarksPath(collection.id))}
+            >
+              {collection.name}
+            </Button>
+          ))}
+        </div>
+
+        {selectedCollection && (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => openCollectionDialog('rename')}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Ganti nama
+            </Button>
+            <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-700" onClick={handleDeleteCollection}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Hapus koleksi
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      {posts.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">
+            {selectedCollection
+              ? 'Belum ada postingan di koleksi ini'
+              : 'Belum ada postingan tersimpan. Tekan ikon simpan pada postingan untuk menyimpannya.'}
+          </p>
+        </Card>
+      ) : (
+        posts.map(post => (
+          <PostCard
+            key={post.id}
+            post={post}
+            currentUserId={userId}
+            accessToken={accessToken}
+            onDelete={handleDeletePost}
+            onUpdate={handlePostUpdate}
+            onBookmarkChange={handleBookmarkChange}
+          />
+        ))
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat postingan...</p>
+        </Card>
+      )}
+
+      {nextCursor && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => fetchPosts(nextCursor)}>
+          Muat lebih banyak
+        </Button>
+      )}
+
+      <Dialog open={collectionDialog !== null} onOpenChange={(open) => !open && setCollectionDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{collectionDialog === 'rename' ? 'Ganti nama koleksi' : 'Koleksi baru'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveCollection} className="space-y-4">
+            <Input
+              placeholder="Nama koleksi"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              disabled={isSavingCollection}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={isSavingCollection || !collectionName.trim()}>
+                {isSavingCollection ? 'Menyimpan...' : 'Simpan'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
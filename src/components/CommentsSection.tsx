@@ -2,55 +2,125 @@ import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { toast } from 'sonner@2.0.3';
-import { postWithAuth } from '../utils/api';
+import { postWithAuth, putWithAuth, deleteWithAuth, getWithAuth } from '../utils/api';
+import { MentionAutocomplete, useMentionAutocomplete } from './MentionAutocomplete';
+import { RichText, type Mention } from './RichText';
+import { ReportDialog } from './ReportDialog';
+import { useRealtimeEvent } from '../utils/realtime';
 
 interface Comment {
   id: string;
   postId: string;
   userId: string;
+  parentCommentId: string | null;
   content: string;
+  mentions?: Mention[];
   createdAt: string;
+  editedAt?: string;
+  deletedAt?: string;
+  hidden?: boolean;
   user: {
     id: string;
     name: string;
     avatar?: string;
   } | null;
+  replies: Comment[];
+  repliesCount: number;
+  repliesCursor: string | null;
 }
 
 interface CommentsSectionProps {
   postId: string;
   accessToken: string;
+  currentUserId: string;
+  postOwnerId: string;
   onCommentAdded: () => void;
+  onCommentDeleted: () => void;
 }
 
-export function CommentsSection({ postId, accessToken, onCommentAdded }: CommentsSectionProps) {
+const REPLIES_PAGE_SIZE = 10;
+
+// Applies `update` to the comment with the given id, wherever it sits in the thread
+function updateCommentInThread(comments: Comment[], commentId: string, update: (comment: Comment) => Comment): Comment[] {
+  return comments.map(comment => {
+    if (comment.id === commentId) {
+      return update(comment);
+    }
+    if (comment.replies.length === 0) {
+      return comment;
+    }
+    return { ...comment, replies: updateCommentInThread(comment.replies, commentId, update) };
+  });
+}
+
+// Removes the comments with the given ids wherever they sit in the thread, keeping reply counts in step
+function removeCommentsFromThread(comments: Comment[], commentIds: string[]): Comment[] {
+  return comments
+    .filter(comment => !commentIds.includes(comment.id))
+    .map(comment => {
+      if (comment.replies.length === 0) {
+        return comment;
+      }
+      const removedCount = comment.replies.filter(reply => commentIds.includes(reply.id)).length;
+      return {
+        ...comment,
+        replies: removeCommentsFromThread(comment.replies, commentIds),
+        repliesCount: comment.repliesCount - removedCount
+      };
+    });
+}
+
+export function CommentsSection({ postId, accessToken, currentUserId, postOwnerId, onCommentAdded, onCommentDeleted }: CommentsSectionProps) {
   const [comments, setComments] = useState<Comment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [newComment, setNewComment] = useState('');
+  const newCommentMention = useMentionAutocomplete(newComment, setNewComment);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingComments, setIsLoadingComments] = useState(true);
+  const [newCommentsCount, setNewCommentsCount] = useState(0);
 
   useEffect(() => {
+    setNewCommentsCount(0);
     fetchComments();
   }, [postId]);
 
-  const fetchComments = async () => {
+  // Komentar dari pengguna lain tidak langsung disisipkan supaya thread tidak bergeser saat dibaca
+  useRealtimeEvent('comment.created', (event) => {
+    if (event.postId === postId && event.userId !== currentUserId) {
+      setNewCommentsCount(prev => prev + 1);
+    }
+  });
+
+  const showNewComments = () => {
+    setNewCommentsCount(0);
+    fetchComments();
+  };
+
+  const requestComments = async (params: URLSearchParams) => {
+    // Token pengguna dibutuhkan agar komentar dari akun yang diblokir disembunyikan
+    const response = await getWithAuth(`/posts/${postId}/comments?${params}`);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Gagal memuat komentar');
+    }
+
+    return data as { comments: Comment[]; nextCursor: string | null };
+  };
+
+  const fetchComments = async (cursor?: string) => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/posts/${postId}/comments`,
-        {
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
-          }
-        }
-      );
-      
-      const data = await response.json();
-      
-      if (response.ok) {
-        setComments(data.comments || []);
-      }
+      const params = new URLSearchParams();
+      if (cursor) params.set('cursor', cursor);
+
+      const data = await requestComments(params);
+      // Skip comments already added locally while this page was still unloaded
+      setComments(prev => cursor
+        ? [...prev, ...data.comments.filter(comment => !prev.some(c => c.id === comment.id))]
+        : data.comments);
+      setNextCursor(data.nextCursor);
     } catch (error) {
       console.error('Fetch comments error:', error);
     } finally {
@@ -58,36 +128,64 @@ export function CommentsSection({ postId, accessToken, onCommentAdded }: Comment
     }
   };
 
+  const loadMoreReplies = async (comment: Comment) => {
+    try {
+      const params = new URLSearchParams({ parentId: comment.id, limit: String(REPLIES_PAGE_SIZE) });
+      // Comments past the depth limit arrive without replies, so their first page has no cursor
+      if (comment.replies.length > 0 && comment.repliesCursor) {
+        params.set('cursor', comment.repliesCursor);
+      }
+
+      const data = await requestComments(params);
+      setComments(prev => updateCommentInThread(prev, comment.id, c => ({
+        ...c,
+        // Skip replies already added locally while this page was hidden
+        replies: [...c.replies, ...data.comments.filter(reply => !c.replies.some(r => r.id === reply.id))],
+        repliesCursor: data.nextCursor
+      })));
+    } catch (error: any) {
+      console.error('Load replies error:', error);
+      toast.error(error.message || 'Gagal memuat balasan');
+    }
+  };
+
+  const submitComment = async (content: string, parentCommentId?: string) => {
+    console.log('Adding comment with auto-refresh token...');
+
+    const response = await postWithAuth(`/posts/${postId}/comments`, { content, parentCommentId });
+
+    console.log('Add comment response status:', response.status);
+
+    const data = await response.json();
+    console.log('Add comment response data:', data);
+
+    if (!response.ok) {
+      console.error('Add comment failed:', data);
+      throw new Error(data.error === 'You cannot interact with this user'
+        ? 'Anda tidak dapat berinteraksi dengan akun ini'
+        : data.error || 'Gagal menambahkan komentar');
+    }
+
+    onCommentAdded();
+    return data.comment as Comment;
+  };
+
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!newComment.trim()) {
       toast.error('Komentar tidak boleh kosong');
       return;
     }
-    
+
     setIsLoading(true);
-    
+
     try {
-      console.log('Adding comment with auto-refresh token...');
-      
-      const response = await postWithAuth(`/posts/${postId}/comments`, { content: newComment });
-      
-      console.log('Add comment response status:', response.status);
-      
-      const data = await response.json();
-      console.log('Add comment response data:', data);
-      
-      if (!response.ok) {
-        console.error('Add comment failed:', data);
-        throw new Error(data.error || 'Gagal menambahkan komentar');
-      }
-      
-      setComments([...comments, data.comment]);
+      const comment = await submitComment(newComment);
+      setComments(prev => [...prev, comment]);
       setNewComment('');
-      onCommentAdded();
       toast.success('Komentar berhasil ditambahkan!');
-      
+
     } catch (error: any) {
       console.error('Add comment error:', error);
       toast.error(error.message || 'Gagal menambahkan komentar');
@@ -96,17 +194,67 @@ export function CommentsSection({ postId, accessToken, onCommentAdded }: Comment
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    
-    if (diffMins < 1) return 'Baru saja';
-    if (diffMins < 60) return `${diffMins}m`;
-    if (diffHours < 24) return `${diffHours}j`;
-    return date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+  const handleReply = async (parent: Comment, content: string) => {
+    const reply = await submitComment(content, parent.id);
+    setComments(prev => updateCommentInThread(prev, parent.id, c => ({
+      ...c,
+      replies: [...c.replies, reply],
+      repliesCount: c.repliesCount + 1
+    })));
+    toast.success('Balasan berhasil ditambahkan!');
+  };
+
+  const handleEdit = async (comment: Comment, content: string) => {
+    const response = await putWithAuth(`/posts/${postId}/comments/${comment.id}`, { content });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Gagal mengedit komentar');
+    }
+
+    setComments(prev => updateCommentInThread(prev, comment.id, c => ({
+      ...c,
+      content: data.comment.content,
+      mentions: data.comment.mentions,
+      editedAt: data.comment.editedAt
+    })));
+    toast.success('Komentar berhasil diedit!');
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!window.confirm('Yakin ingin menghapus komentar ini?')) {
+      return;
+    }
+
+    try {
+      const response = await deleteWithAuth(`/posts/${postId}/comments/${comment.id}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus komentar');
+      }
+
+      if (data.placeholder) {
+        // Replies stay visible under a "deleted" placeholder
+        setComments(prev => updateCommentInThread(prev, comment.id, c => ({
+          ...c,
+          content: '',
+          deletedAt: new Date().toISOString()
+        })));
+      } else {
+        // Deleted placeholders left without replies are removed along with the comment
+        setComments(prev => removeCommentsFromThread(prev, data.removedIds || [comment.id]));
+      }
+
+      onCommentDeleted();
+      toast.success('Komentar berhasil dihapus!');
+
+    } catch (error: any) {
+      console.error('Delete comment error:', error);
+      toast.error(error.message || 'Gagal menghapus komentar');
+    }
   };
 
   return (
@@ -114,13 +262,15 @@ export function CommentsSection({ postId, accessToken, onCommentAdded }: Comment
       {/* Add Comment Form */}
       <form onSubmit={handleAddComment} className="mb-4">
         <div className="flex gap-2">
-          <Input
-            placeholder="Tulis komentar..."
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            disabled={isLoading}
-            className="flex-1"
-          />
+          <MentionAutocomplete mention={newCommentMention} className="flex-1">
+            <Input
+              placeholder="Tulis komentar..."
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              disabled={isLoading}
+              {...newCommentMention.fieldProps}
+            />
+          </MentionAutocomplete>
           <Button type="submit" size="sm" disabled={isLoading || !newComment.trim()}>
             {isLoading ? 'Kirim...' : 'Kirim'}
           </Button>
@@ -129,36 +279,302 @@ export function CommentsSection({ postId, accessToken, onCommentAdded }: Comment
 
       {/* Comments List */}
       <div className="space-y-3">
+        {newCommentsCount > 0 && (
+          <Button variant="ghost" size="sm" className="w-full text-blue-500" onClick={showNewComments}>
+            Tampilkan {newCommentsCount} komentar baru
+          </Button>
+        )}
         {isLoadingComments ? (
           <p className="text-sm text-gray-500 text-center py-2">Memuat komentar...</p>
         ) : comments.length === 0 ? (
           <p className="text-sm text-gray-500 text-center py-2">Belum ada komentar</p>
         ) : (
-          comments.map(comment => (
-            <div key={comment.id} className="flex gap-2">
-              <Avatar className="h-8 w-8">
-                <AvatarImage src={comment.user?.avatar} />
-                <AvatarFallback className="bg-gray-400 text-white text-xs">
-                  {comment.user?.name?.charAt(0).toUpperCase() || 'U'}
-                </AvatarFallback>
-              </Avatar>
-              <div className="flex-1 bg-gray-50 rounded-lg p-2">
-                <div className="flex items-center gap-2 mb-1">
-                  <p className="font-semibold text-sm text-gray-900">
-                    {comment.user?.name || 'Unknown User'}
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    {formatDate(comment.createdAt)}
-                  </p>
-                </div>
-                <p className="text-sm text-gray-800 break-words">
-                  {comment.content}
+          <>
+            {comments.map(comment => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                currentUserId={currentUserId}
+                postOwnerId={postOwnerId}
+                onReply={handleReply}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onLoadMoreReplies={loadMoreReplies}
+              />
+            ))}
+            {nextCursor && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-gray-500"
+                onClick={() => fetchComments(nextCursor)}
+              >
+                Muat komentar lainnya
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CommentItemProps {
+  comment: Comment;
+  currentUserId: string;
+  postOwnerId: string;
+  onReply: (parent: Comment, content: string) => Promise<void>;
+  onEdit: (comment: Comment, content: string) => Promise<void>;
+  onDelete: (comment: Comment) => Promise<void>;
+  onLoadMoreReplies: (comment: Comment) => Promise<void>;
+}
+
+function CommentItem({ comment, currentUserId, postOwnerId, onReply, onEdit, onDelete, onLoadMoreReplies }: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState('');
+  const replyMention = useMentionAutocomplete(replyContent, setReplyContent);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingReplies, setIsLoadingReplies] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(comment.content);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+
+  const hiddenRepliesCount = comment.repliesCount - comment.replies.length;
+  const isDeleted = !!comment.deletedAt;
+  // Komentar dari akun yang diblokir tetap ada agar balasannya tidak kehilangan konteks
+  const isHidden = !!comment.hidden;
+  const isOwnComment = comment.userId === currentUserId;
+  const canDelete = isOwnComment || postOwnerId === currentUserId;
+
+  const handleSubmitEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!editContent.trim()) {
+      toast.error('Komentar tidak boleh kosong');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onEdit(comment, editContent);
+      setIsEditing(false);
+    } catch (error: any) {
+      console.error('Edit comment error:', error);
+      toast.error(error.message || 'Gagal mengedit komentar');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!replyContent.trim()) {
+      toast.error('Balasan tidak boleh kosong');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onReply(comment, replyContent);
+      setReplyContent('');
+      setIsReplying(false);
+    } catch (error: any) {
+      console.error('Add reply error:', error);
+      toast.error(error.message || 'Gagal menambahkan balasan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLoadMoreReplies = async () => {
+    setIsLoadingReplies(true);
+    await onLoadMoreReplies(comment);
+    setIsLoadingReplies(false);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHours = Math.floor(diffMs / 3600000);
+
+    if (diffMins < 1) return 'Baru saja';
+    if (diffMins < 60) return `${diffMins}m`;
+    if (diffHours < 24) return `${diffHours}j`;
+    return date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={comment.user?.avatar} />
+          <AvatarFallback className="bg-gray-400 text-white text-xs">
+            {comment.user?.name?.charAt(0).toUpperCase() || 'U'}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          {isDeleted ? (
+            <div className="bg-gray-50 rounded-lg p-2">
+              <p className="text-sm italic text-gray-400">Komentar telah dihapus</p>
+            </div>
+          ) : isHidden ? (
+            <div className="bg-gray-50 rounded-lg p-2">
+              <p className="text-sm italic text-gray-400">Komentar disembunyikan</p>
+            </div>
+          ) : isEditing ? (
+            <form onSubmit={handleSubmitEdit} className="flex gap-2">
+              <Input
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                disabled={isSubmitting}
+                className="flex-1 h-8 text-sm"
+                autoFocus
+              />
+              <Button type="submit" size="sm" disabled={isSubmitting || !editContent.trim()}>
+                Simpan
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() => {
+                  setEditContent(comment.content);
+                  setIsEditing(false);
+                }}
+              >
+                Batal
+              </Button>
+            </form>
+          ) : (
+            <div className="bg-gray-50 rounded-lg p-2">
+              <div className="flex items-center gap-2 mb-1">
+                <p className="font-semibold text-sm text-gray-900">
+                  {comment.user?.name || 'Unknown User'}
                 </p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(comment.createdAt)}
+                </p>
+                {comment.editedAt && (
+                  <p
+                    className="text-xs text-gray-400"
+                    title={new Date(comment.editedAt).toLocaleString('id-ID')}
+                  >
+                    (diedit)
+                  </p>
+                )}
               </div>
+              <p className="text-sm text-gray-800 break-words">
+                <RichText text={comment.content} mentions={comment.mentions} linkHashtags={false} />
+              </p>
             </div>
-          ))
-        )}
+          )}
+
+          {!isDeleted && !isHidden && !isEditing && (
+            <div className="flex gap-3 mt-1 ml-2">
+              <button
+                type="button"
+                className="text-xs font-semibold text-gray-500 hover:text-blue-500"
+                onClick={() => setIsReplying(!isReplying)}
+              >
+                Balas
+              </button>
+              {isOwnComment && (
+                <button
+                  type="button"
+                  className="text-xs font-semibold text-gray-500 hover:text-blue-500"
+                  onClick={() => {
+                    setEditContent(comment.content);
+                    setIsEditing(true);
+                  }}
+                >
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  className="text-xs font-semibold text-gray-500 hover:text-red-500"
+                  onClick={() => onDelete(comment)}
+                >
+                  Hapus
+                </button>
+              )}
+              {!isOwnComment && (
+                <button
+                  type="button"
+                  className="text-xs font-semibold text-gray-500 hover:text-red-500"
+                  onClick={() => setShowReportDialog(true)}
+                >
+                  Laporkan
+                </button>
+              )}
+            </div>
+          )}
+
+          {showReportDialog && (
+            <ReportDialog
+              targetType="comment"
+              targetId={comment.id}
+              postId={comment.postId}
+              open={showReportDialog}
+              onClose={() => setShowReportDialog(false)}
+            />
+          )}
+
+          {isReplying && (
+            <form onSubmit={handleSubmitReply} className="flex gap-2 mt-2">
+              <MentionAutocomplete mention={replyMention} className="flex-1">
+                <Input
+                  placeholder={`Balas ${comment.user?.name || 'komentar'}...`}
+                  value={replyContent}
+                  onChange={(e) => setReplyContent(e.target.value)}
+                  disabled={isSubmitting}
+                  className="h-8 text-sm"
+                  autoFocus
+                  {...replyMention.fieldProps}
+                />
+              </MentionAutocomplete>
+              <Button type="submit" size="sm" disabled={isSubmitting || !replyContent.trim()}>
+                {isSubmitting ? 'Kirim...' : 'Kirim'}
+              </Button>
+            </form>
+          )}
+        </div>
       </div>
+
+      {/* Replies */}
+      {(comment.replies.length > 0 || hiddenRepliesCount > 0) && (
+        <div className="ml-4 mt-2 pl-4 border-l-2 border-gray-100 space-y-3">
+          {comment.replies.map(reply => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              currentUserId={currentUserId}
+              postOwnerId={postOwnerId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onLoadMoreReplies={onLoadMoreReplies}
+            />
+          ))}
+          {hiddenRepliesCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-semibold text-blue-500 hover:underline"
+              onClick={handleLoadMoreReplies}
+              disabled={isLoadingReplies}
+            >
+              {isLoadingReplies ? 'Memuat balasan...' : `Lihat ${hiddenRepliesCount} balasan lainnya`}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Textarea } from './ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { ArrowLeft, Send } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, postWithAuth } from '../utils/api';
+import { Link, messagesPath, profilePath } from '../utils/router';
+import { refreshUnreadMessageCount } from '../utils/messages';
+
+interface Message {
+  id: string;
+  senderId: string;
+  content: string;
+  createdAt: string;
+}
+
+interface Conversation {
+  id: string;
+  user: {
+    id: string;
+    name: string;
+    handle?: string;
+    avatar?: string;
+  } | null;
+  otherLastReadAt: string | null;
+}
+
+interface ConversationPageProps {
+  userId: string;
+  conversationId: string;
+}
+
+// Sama dengan batasan di server
+const MAX_MESSAGE_LENGTH = 1000;
+const POLL_INTERVAL_MS = 5000;
+
+export function ConversationPage({ userId, conversationId }: ConversationPageProps) {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  // Pesan disimpan dari yang terbaru, lalu dibalik saat ditampilkan
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newMessage, setNewMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // Dipakai polling untuk membandingkan dengan pesan yang sudah tampil
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+
+  useEffect(() => {
+    fetchConversation();
+    fetchMessages();
+
+    // Ambil pesan baru secara berkala selama percakapan terbuka
+    const interval = setInterval(() => {
+      fetchConversation();
+      fetchMessages();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [conversationId]);
+
+  const fetchConversation = async () => {
+    try {
+      const response = await getWithAuth(`/conversations/${conversationId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat percakapan');
+      }
+
+      setConversation(data.conversation);
+    } catch (error: any) {
+      console.error('Fetch conversation error:', error);
+      toast.error(error.message || 'Gagal memuat percakapan');
+    }
+  };
+
+  const markAsRead = async () => {
+    try {
+      await postWithAuth(`/conversations/${conversationId}/read`);
+      refreshUnreadMessageCount();
+    } catch (error) {
+      console.error('Mark conversation read error:', error);
+    }
+  };
+
+  const fetchMessages = async (cursor?: string) => {
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await getWithAuth(`/conversations/${conversationId}/messages${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat pesan');
+      }
+
+      const fetched: Message[] = data.messages || [];
+      if (cursor) {
+        setMessages(prev => [...prev, ...fetched.filter(m => !prev.some(p => p.id === m.id))]);
+        setNextCursor(data.nextCursor || null);
+        return;
+      }
+
+      // Halaman pertama: gabungkan pesan terbaru tanpa membuang pesan lama yang sudah dimuat
+      const isFirstLoad = messagesRef.current.length === 0;
+      const newMessages = fetched.filter(m => !messagesRef.current.some(p => p.id === m.id));
+      setMessages(prev => [...newMessages.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+      if (isFirstLoad) {
+        setNextCursor(data.nextCursor || null);
+      }
+
+      if (newMessages.length > 0) {
+        markAsRead();
+        requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ behavior: 'smooth' }));
+      }
+    } catch (error: any) {
+      console.error('Fetch messages error:', error);
+      if (!cursor) {
+        return;
+      }
+      toast.error(error.message || 'Gagal memuat pesan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+
+    if (!newMessage.trim()) {
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const response = await postWithAuth(`/conversations/${conversationId}/messages`, { content: newMessage });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.error?.includes('only accepts messages')
+            ? 'Pengguna ini hanya menerima pesan dari akun yang diikutinya'
+            : data.error || 'Gagal mengirim pesan'
+        );
+      }
+
+      setNewMessage('');
+      setMessages(prev => [data.message, ...prev]);
+      requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ behavior: 'smooth' }));
+    } catch (error: any) {
+      console.error('Send message error:', error);
+      toast.error(error.message || 'Gagal mengirim pesan');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const orderedMessages = [...messages].reverse();
+  const lastOwnMessage = messages.find(m => m.senderId === userId);
+  const isLastOwnMessageRead = !!lastOwnMessage && !!conversation?.otherLastReadAt
+    && conversation.otherLastReadAt >= lastOwnMessage.createdAt;
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 shadow-md">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to={messagesPath()} aria-label="Kembali ke pesan">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          {conversation?.user && (
+            <Link to={profilePath(conversation.user.id)} className="flex items-center gap-3">
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={conversation.user.avatar} />
+                <AvatarFallback className="bg-blue-500 text-white">
+                  {conversation.user.name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="font-semibold text-gray-900">{conversation.user.name}</p>
+                {conversation.user.handle && (
+                  <p className="text-sm text-gray-500">@{conversation.user.handle}</p>
+                )}
+              </div>
+            </Link>
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-4 shadow-md">
+        {nextCursor && (
+          <Button variant="ghost" size="sm" className="w-full mb-2" onClick={() => fetchMessages(nextCursor)}>
+            Muat pesan sebelumnya
+          </Button>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-4">Memuat pesan...</p>
+        ) : orderedMessages.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">Belum ada pesan. Mulai percakapan!</p>
+        ) : (
+          <div className="space-y-2">
+            {orderedMessages.map(message => {
+              const isOwn = message.senderId === userId;
+              return (
+                <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[75%] rounded-2xl px-3 py-2 ${isOwn ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-900'}`}>
+                    <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                    <p className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-gray-400'}`}>
+                      {new Date(message.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                      {message.id === lastOwnMessage?.id && isLastOwnMessageRead && ' · Dibaca'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </Card>
+
+      <form onSubmit={handleSend} className="flex gap-2">
+        <Textarea
+          placeholder="Tulis pesan..."
+          value={newMessage}
+          onChange={(e) => setNewMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !isSending) {
+              handleSend(e);
+            }
+          }}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={1}
+          className="resize-none"
+          disabled={isSending}
+        />
+        <Button type="submit" size="icon" disabled={isSending || !newMessage.trim()} aria-label="Kirim">
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
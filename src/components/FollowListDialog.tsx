@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+
+interface FollowUser {
+  id: string;
+  name: string;
+  avatar?: string;
+  bio?: string;
+}
+
+interface FollowListDialogProps {
+  userId: string;
+  type: 'followers' | 'following' | null;
+  onClose: () => void;
+  onSelectUser: (userId: string) => void;
+}
+
+export function FollowListDialog({ userId, type, onClose, onSelectUser }: FollowListDialogProps) {
+  const [users, setUsers] = useState<FollowUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (type) {
+      setUsers([]);
+      setNextCursor(null);
+      fetchUsers();
+    }
+  }, [type, userId]);
+
+  const fetchUsers = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/${userId}/${type}${query}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`
+          }
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat daftar pengguna');
+      }
+
+      setUsers(prev => cursor ? [...prev, ...(data.users || [])] : (data.users || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch follow list error:', error);
+      toast.error(error.message || 'Gagal memuat daftar pengguna');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={type !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{type === 'followers' ? 'Pengikut' : 'Mengikuti'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {users.length === 0 && !isLoading ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {type === 'followers' ? 'Belum ada pengikut' : 'Belum mengikuti siapa pun'}
+            </p>
+          ) : (
+            users.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                className="flex w-full items-center gap-3 rounded-lg p-1 text-left hover:bg-gray-50"
+                onClick={() => onSelectUser(user.id)}
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={user.avatar} />
+                  <AvatarFallback className="bg-blue-500 text-white">
+                    {user.name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900">{user.name}</p>
+                  {user.bio && (
+                    <p className="text-sm text-gray-600 truncate">{user.bio}</p>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+
+          {isLoading && (
+            <p className="text-sm text-gray-500 text-center py-2">Memuat...</p>
+          )}
+
+          {nextCursor && !isLoading && (
+            <Button variant="outline" className="w-full" onClick={() => fetchUsers(nextCursor)}>
+              Muat lebih banyak
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
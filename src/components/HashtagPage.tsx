@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Hash } from 'lucide-react';
+import { PostCard, type Post } from './PostCard';
+import { toast } from 'sonner@2.0.3';
+import { deleteWithAuth, getWithAuth } from '../utils/api';
+
+interface HashtagPageProps {
+  accessToken: string;
+  userId: string;
+  tag: string;
+}
+
+export function HashtagPage({ accessToken, userId, tag }: HashtagPageProps) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [tag]);
+
+  const fetchPosts = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await getWithAuth(`/hashtags/${encodeURIComponent(tag)}/posts${query}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat postingan');
+      }
+
+      setPosts(prev => cursor ? [...prev, ...(data.posts || [])] : (data.posts || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch hashtag posts error:', error);
+      toast.error(error.message || 'Gagal memuat postingan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeletePost = async (postId: string) => {
+    if (!window.confirm('Yakin ingin menghapus postingan ini?')) {
+      return;
+    }
+
+    try {
+      const response = await deleteWithAuth(`/posts/${postId}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus postingan');
+      }
+
+      toast.success(data.message || 'Postingan berhasil dihapus!');
+      setPosts(posts.filter(p => p.id !== postId));
+    } catch (error: any) {
+      console.error('Delete post error:', error);
+      toast.error(error.message || 'Gagal menghapus postingan');
+    }
+  };
+
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts(posts.map(p => p.id === updatedPost.id ? updatedPost : p));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 shadow-md">
+        <div className="flex items-center gap-3">
+          <div className="rounded-full bg-blue-50 p-3 text-blue-500">
+            <Hash className="h-6 w-6" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">#{tag}</h2>
+            <p className="text-sm text-gray-500">Postingan dengan tagar ini</p>
+          </div>
+        </div>
+      </Card>
+
+      {posts.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Belum ada postingan dengan #{tag}</p>
+        </Card>
+      ) : (
+        posts.map(post => (
+          <PostCard
+            key={post.id}
+            post={post}
+            currentUserId={userId}
+            accessToken={accessToken}
+            onDelete={handleDeletePost}
+            onUpdate={handlePostUpdate}
+          />
+        ))
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat postingan...</p>
+        </Card>
+      )}
+
+      {nextCursor && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => fetchPosts(nextCursor)}>
+          Muat lebih banyak
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,43 +2,50 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent } from './ui/card';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { Home, Search, User, LogOut, PlusCircle, RefreshCw } from 'lucide-react';
-import { PostCard } from './PostCard';
+import { ArrowUp, ImagePlus, X } from 'lucide-react';
+import { PostCard, type Post } from './PostCard';
+import { type PostMedia } from './PostMediaGrid';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { MentionAutocomplete, useMentionAutocomplete } from './MentionAutocomplete';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { toast } from 'sonner@2.0.3';
-import { postWithAuth, deleteWithAuth } from '../utils/api';
-import { CrowLogo } from './CrowLogo';
+import { postWithAuth, deleteWithAuth, getWithAuth, uploadWithAuth } from '../utils/api';
+import { useRealtimeEvent } from '../utils/realtime';
 
-interface Post {
-  id: string;
-  userId: string;
-  content: string;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string;
-    avatar?: string;
-  } | null;
-  likesCount: number;
-  commentsCount: number;
-}
+type FeedType = 'global' | 'following';
+
+// Sama dengan batasan upload di server
+const MAX_ATTACHMENTS = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
 
 interface MainFeedProps {
   accessToken: string;
   userId: string;
-  onLogout: () => void;
-  onNavigate: (page: 'feed' | 'search' | 'profile') => void;
-  currentPage: 'feed' | 'search' | 'profile';
 }
 
-export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPage }: MainFeedProps) {
+export function MainFeed({ accessToken, userId }: MainFeedProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [newPost, setNewPost] = useState('');
+  const newPostMention = useMentionAutocomplete(newPost, setNewPost);
+  const [attachments, setAttachments] = useState<PostMedia[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingPosts, setIsLoadingPosts] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [feedType, setFeedType] = useState<FeedType>('global');
   const [hasSeeded, setHasSeeded] = useState(false);
+  // Postingan baru dari pengguna lain, ditampilkan setelah pengguna menekan pill "N postingan baru"
+  const [pendingPostIds, setPendingPostIds] = useState<string[]>([]);
   const feedRef = useRef<HTMLDivElement>(null);
+  // Tracks the selected tab so responses for a tab the user already left are dropped
+  const feedTypeRef = useRef<FeedType>(feedType);
+  // Akun yang disembunyikan dan yang diikuti, untuk menyaring postingan baru tanpa request per event
+  const relationshipsRef = useRef<{ hiddenUserIds: Set<string>; followingIds: Set<string> } | null>(null);
 
   // Seed random Indonesian users
   const seedUsers = async () => {
@@ -63,16 +70,27 @@ export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPag
     }
   };
 
-  const fetchPosts = async () => {
+  const fetchRelationships = async () => {
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/posts`,
-        {
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
-          }
-        }
-      );
+      const response = await getWithAuth('/relationships');
+      const data = await response.json();
+
+      if (response.ok) {
+        relationshipsRef.current = {
+          hiddenUserIds: new Set(data.hiddenUserIds || []),
+          followingIds: new Set(data.followingIds || [])
+        };
+      }
+    } catch (error) {
+      console.error('Fetch relationships error:', error);
+    }
+  };
+
+  const fetchPosts = async (type: FeedType, cursor?: string) => {
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      // Kedua feed memakai token pengguna agar akun yang diblokir atau dibisukan tersaring di server
+      const response = await getWithAuth(type === 'following' ? `/timeline${query}` : `/posts${query}`);
       
       const data = await response.json();
       
@@ -80,51 +98,130 @@ export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPag
         throw new Error(data.error || 'Gagal memuat postingan');
       }
       
-      setPosts(data.posts || []);
+      if (feedTypeRef.current !== type) {
+        return;
+      }
+      
+      const newPosts: Post[] = data.posts || [];
+      if (cursor) {
+        // Skip posts already shown, e.g. ones created locally since the first page loaded
+        setPosts(prev => [
+          ...prev,
+          ...newPosts.filter(post => !prev.some(p => p.id === post.id))
+        ]);
+      } else {
+        setPosts(newPosts);
+      }
+      setNextCursor(data.nextCursor || null);
     } catch (error: any) {
       console.error('Fetch posts error:', error);
       toast.error('Gagal memuat postingan');
     } finally {
-      setIsLoadingPosts(false);
+      if (feedTypeRef.current === type) {
+        setIsLoadingPosts(false);
+        setIsLoadingMore(false);
+      }
     }
   };
 
-  // Handle scroll to bottom - auto refresh
+  // Handle scroll to bottom - load older posts
   const handleScroll = useCallback(() => {
     const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
     const scrollHeight = document.documentElement.scrollHeight;
     const clientHeight = document.documentElement.clientHeight;
     const isAtBottom = scrollHeight - scrollTop <= clientHeight + 200;
     
-    if (isAtBottom && !isLoadingPosts && posts.length > 0) {
-      // Refresh and scroll to top
-      toast.info('Memuat ulang postingan...');
-      setIsLoadingPosts(true);
-      fetchPosts().then(() => {
-        window.scrollTo({ top: 0, behavior: 'smooth' });
-      });
+    if (isAtBottom && !isLoadingPosts && !isLoadingMore && nextCursor) {
+      setIsLoadingMore(true);
+      fetchPosts(feedType, nextCursor);
     }
-  }, [isLoadingPosts, posts.length]);
+  }, [isLoadingPosts, isLoadingMore, nextCursor, feedType]);
 
   useEffect(() => {
-    if (currentPage === 'feed') {
-      seedUsers();
-      fetchPosts();
-    }
-  }, [currentPage]);
+    seedUsers();
+  }, []);
+
+  useEffect(() => {
+    feedTypeRef.current = feedType;
+    setPosts([]);
+    setPendingPostIds([]);
+    setNextCursor(null);
+    setIsLoadingPosts(true);
+    fetchPosts(feedType);
+    // Dimuat ulang bersama feed agar ikut perubahan follow, blokir dan bisu dari halaman lain
+    fetchRelationships();
+  }, [feedType]);
 
   // Add scroll listener
   useEffect(() => {
-    if (currentPage === 'feed') {
-      window.addEventListener('scroll', handleScroll);
-      return () => window.removeEventListener('scroll', handleScroll);
+    window.addEventListener('scroll', handleScroll);
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [handleScroll]);
+
+  useRealtimeEvent('post.created', (event) => {
+    const relationships = relationshipsRef.current;
+    if (event.userId === userId || !relationships) {
+      return;
+    }
+
+    // Postingan dari akun yang diblokir atau dibisukan tidak ikut dihitung
+    if (relationships.hiddenUserIds.has(event.userId)) {
+      return;
     }
-  }, [currentPage, handleScroll]);
+
+    if (feedTypeRef.current === 'following' && !relationships.followingIds.has(event.userId)) {
+      return;
+    }
+
+    setPendingPostIds(prev => prev.includes(event.postId) ? prev : [...prev, event.postId]);
+  });
+
+  const showPendingPosts = () => {
+    setPendingPostIds([]);
+    setIsLoadingPosts(true);
+    fetchPosts(feedType);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSelectImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      toast.error(`Maksimal ${MAX_ATTACHMENTS} gambar per postingan`);
+      return;
+    }
+
+    const invalidFile = files.find(file => !IMAGE_TYPES.includes(file.type) || file.size > MAX_IMAGE_BYTES);
+    if (invalidFile) {
+      toast.error('Gambar harus berformat JPEG, PNG atau GIF dan maksimal 5MB');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const response = await uploadWithAuth('/media', file);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Gagal mengunggah gambar');
+        }
+
+        setAttachments(prev => [...prev, data.media]);
+      }
+    } catch (error: any) {
+      console.error('Upload image error:', error);
+      toast.error(error.message || 'Gagal mengunggah gambar');
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
   const handleCreatePost = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newPost.trim()) {
+    if (!newPost.trim() && attachments.length === 0) {
       toast.error('Postingan tidak boleh kosong');
       return;
     }
@@ -139,7 +236,10 @@ export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPag
     try {
       console.log('Creating post with auto-refresh token...');
       
-      const response = await postWithAuth('/posts', { content: newPost });
+      const response = await postWithAuth('/posts', {
+        content: newPost,
+        mediaIds: attachments.map(media => media.id)
+      });
       
       console.log('Create post response status:', response.status);
       
@@ -153,6 +253,7 @@ export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPag
       
       toast.success(data.message || 'Postingan berhasil dibuat!');
       setNewPost('');
+      setAttachments([]);
       setPosts([data.post, ...posts]);
       
     } catch (error: any) {
@@ -197,109 +298,128 @@ export function MainFeed({ accessToken, userId, onLogout, onNavigate, currentPag
     setPosts(posts.map(p => p.id === updatedPost.id ? updatedPost : p));
   };
 
-  if (currentPage !== 'feed') {
-    return null;
-  }
-
   return (
-    <div className="min-h-screen bg-gray-50" ref={feedRef}>
-      {/* Header */}
-      <header className="bg-white border-b sticky top-0 z-10 shadow-sm">
-        <div className="max-w-2xl mx-auto px-4 py-3 flex items-center justify-between">
-          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
-            <CrowLogo size={32} className="text-gray-900" />
-            Crow
-          </h1>
-          <Button variant="ghost" size="icon" onClick={onLogout}>
-            <LogOut className="h-5 w-5" />
-          </Button>
-        </div>
-      </header>
-
-      <div className="max-w-2xl mx-auto px-4 py-6 pb-24">
-        {/* Create Post */}
-        <Card className="p-4 mb-6 shadow-md">
-          <form onSubmit={handleCreatePost}>
+    <div ref={feedRef}>
+      {/* Create Post */}
+      <Card className="p-4 mb-6 shadow-md">
+        <form onSubmit={handleCreatePost}>
+          <MentionAutocomplete mention={newPostMention} className="mb-3">
             <Textarea
               placeholder="Apa yang sedang terjadi?"
               value={newPost}
               onChange={(e) => setNewPost(e.target.value)}
-              className="mb-3 resize-none"
+              className="resize-none"
               rows={3}
               disabled={isLoading}
+              {...newPostMention.fieldProps}
             />
-            <div className="flex items-center justify-between">
+          </MentionAutocomplete>
+          {attachments.length > 0 && (
+            <div className="grid grid-cols-4 gap-2 mb-3">
+              {attachments.map(media => (
+                <div key={media.id} className="relative">
+                  <ImageWithFallback
+                    src={media.thumbnailUrl}
+                    alt="Lampiran"
+                    className="h-20 w-full rounded-lg object-cover"
+                  />
+                  <button
+                    type="button"
+                    className="absolute top-1 right-1 rounded-full bg-black/60 p-1 text-white"
+                    onClick={() => setAttachments(prev => prev.filter(m => m.id !== media.id))}
+                    disabled={isLoading}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={IMAGE_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={handleSelectImages}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading || isUploading || attachments.length >= MAX_ATTACHMENTS}
+                className="text-blue-500 hover:bg-blue-50"
+              >
+                <ImagePlus className="h-5 w-5" />
+              </Button>
               <span className="text-sm text-gray-500">
-                {newPost.length}/280
+                {isUploading ? 'Mengunggah gambar...' : `${newPost.length}/280`}
               </span>
-              <Button type="submit" disabled={isLoading || !newPost.trim()}>
-                {isLoading ? 'Memposting...' : 'Post'}
-              </Button>
             </div>
-          </form>
-        </Card>
+            <Button type="submit" disabled={isLoading || isUploading || (!newPost.trim() && attachments.length === 0)}>
+              {isLoading ? 'Memposting...' : 'Post'}
+            </Button>
+          </div>
+        </form>
+      </Card>
 
-        {/* Posts Feed */}
-        <div className="space-y-4">
-          {isLoadingPosts ? (
-            <Card className="p-8 text-center">
-              <p className="text-gray-500">Memuat postingan...</p>
-            </Card>
-          ) : posts.length === 0 ? (
-            <Card className="p-8 text-center">
-              <p className="text-gray-500">Belum ada postingan. Buat postingan pertama!</p>
+      {/* Feed Switcher */}
+      <Tabs value={feedType} onValueChange={(value) => setFeedType(value as FeedType)} className="mb-4">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="global">Untuk Anda</TabsTrigger>
+          <TabsTrigger value="following">Mengikuti</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Posts Feed */}
+      <div className="space-y-4">
+        {pendingPostIds.length > 0 && (
+          <div className="sticky top-20 z-10 flex justify-center">
+            <Button size="sm" className="rounded-full shadow-md" onClick={showPendingPosts}>
+              <ArrowUp className="h-4 w-4 mr-1" />
+              {pendingPostIds.length} postingan baru
+            </Button>
+          </div>
+        )}
+        {isLoadingPosts ? (
+          <Card className="p-8 text-center">
+            <p className="text-gray-500">Memuat postingan...</p>
+          </Card>
+        ) : posts.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-gray-500">
+              {feedType === 'following'
+                ? 'Belum ada postingan dari akun yang Anda ikuti. Cari pengguna untuk diikuti!'
+                : 'Belum ada postingan. Buat postingan pertama!'}
+            </p>
+          </Card>
+        ) : (
+          <>
+            {posts.map(post => (
+              <PostCard
+                key={post.id}
+                post={post}
+                currentUserId={userId}
+                accessToken={accessToken}
+                onDelete={handleDeletePost}
+                onUpdate={handlePostUpdate}
+              />
+            ))}
+            <Card className="p-4 text-center bg-gray-100 border-dashed">
+              <p className="text-sm text-gray-500">
+                {isLoadingMore
+                  ? 'Memuat postingan lama...'
+                  : nextCursor
+                    ? '⬇️ Scroll ke bawah untuk memuat postingan lama'
+                    : 'Anda sudah melihat semua postingan'}
+              </p>
             </Card>
-          ) : (
-            <>
-              {posts.map(post => (
-                <PostCard
-                  key={post.id}
-                  post={post}
-                  currentUserId={userId}
-                  accessToken={accessToken}
-                  onDelete={handleDeletePost}
-                  onUpdate={handlePostUpdate}
-                />
-              ))}
-              <Card className="p-4 text-center bg-gray-100 border-dashed">
-                <p className="text-sm text-gray-500">
-                  ⬇️ Scroll ke bawah untuk refresh feed
-                </p>
-              </Card>
-            </>
-          )}
-        </div>
+          </>
+        )}
       </div>
-
-      {/* Bottom Navigation */}
-      <nav className="fixed bottom-0 left-0 right-0 bg-white border-t shadow-lg">
-        <div className="max-w-2xl mx-auto px-4 py-3 flex justify-around">
-          <Button
-            variant={currentPage === 'feed' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('feed')}
-          >
-            <Home className="h-5 w-5 mr-2" />
-            Beranda
-          </Button>
-          <Button
-            variant={currentPage === 'search' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('search')}
-          >
-            <Search className="h-5 w-5 mr-2" />
-            Cari
-          </Button>
-          <Button
-            variant={currentPage === 'profile' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('profile')} className="font-bold"
-          >
-            <User className="h-5 w-5 mr-2" />
-            Profil
-          </Button>
-        </div>
-      </nav>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef } from 'react';
+import { Popover, PopoverAnchor, PopoverContent } from './ui/popover';
+import { Command, CommandGroup, CommandItem, CommandList } from './ui/command';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+
+interface MentionUser {
+  id: string;
+  name: string;
+  handle: string;
+  avatar?: string;
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+// "@" yang sedang diketik tepat sebelum kursor, dengan aturan batas yang sama seperti di server
+const ACTIVE_MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_@.])@([A-Za-z0-9_]{1,20})$/u;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * State autocomplete mention untuk satu Input atau Textarea
+ */
+export function useMentionAutocomplete(value: string, onChange: (value: string) => void) {
+  const fieldRef = useRef<TextField | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [users, setUsers] = useState<MentionUser[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!query) {
+      setUsers([]);
+      return;
+    }
+
+    // Tunggu sampai pengguna berhenti mengetik sebelum mencari
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/search/query?q=${encodeURIComponent(query)}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${publicAnonKey}`
+            }
+          }
+        );
+        const data = await response.json();
+
+        if (!isCancelled && response.ok) {
+          setUsers((data.users || []).filter((user: MentionUser) => user.handle).slice(0, MAX_SUGGESTIONS));
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Mention search error:', error);
+      }
+    }, 200);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const updateQuery = (field: TextField) => {
+    fieldRef.current = field;
+    const caret = field.selectionStart ?? field.value.length;
+    const match = field.value.slice(0, caret).match(ACTIVE_MENTION_PATTERN);
+    setQuery(match ? match[1] : null);
+  };
+
+  const close = () => {
+    setQuery(null);
+  };
+
+  const select = (user: MentionUser) => {
+    const field = fieldRef.current;
+    if (!field || query === null) {
+      return;
+    }
+
+    const caret = field.selectionStart ?? value.length;
+    const mentionStart = caret - query.length - 1;
+    const inserted = `@${user.handle} `;
+    onChange(value.slice(0, mentionStart) + inserted + value.slice(caret));
+    setQuery(null);
+
+    // Kembalikan kursor ke setelah mention setelah React merender nilai baru
+    const nextCaret = mentionStart + inserted.length;
+    requestAnimationFrame(() => {
+      field.focus();
+      field.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const isOpen = query !== null && users.length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<TextField>) => {
+    if (!isOpen) {
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % users.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev - 1 + users.length) % users.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      select(users[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return {
+    users,
+    activeIndex,
+    isOpen,
+    select,
+    close,
+    // Dipasang ke Input/Textarea yang mendukung mention
+    fieldProps: {
+      onKeyDown: handleKeyDown,
+      onSelect: (e: React.SyntheticEvent<TextField>) => updateQuery(e.currentTarget)
+    }
+  };
+}
+
+interface MentionAutocompleteProps {
+  mention: ReturnType<typeof useMentionAutocomplete>;
+  children: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Popover saran pengguna yang muncul di bawah field saat mengetik "@"
+ */
+export function MentionAutocomplete({ mention, children, className }: MentionAutocompleteProps) {
+  const activeUser = mention.users[mention.activeIndex];
+
+  return (
+    <Popover open={mention.isOpen} onOpenChange={(open) => !open && mention.close()}>
+      <PopoverAnchor className={className}>{children}</PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-64 p-0"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <Command shouldFilter={false} value={activeUser?.handle || ''}>
+          <CommandList>
+            <CommandGroup>
+              {mention.users.map(user => (
+                <CommandItem
+                  key={user.id}
+                  value={user.handle}
+                  onSelect={() => mention.select(user)}
+                >
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={user.avatar} />
+                    <AvatarFallback className="bg-blue-500 text-white text-xs">
+                      {user.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{user.name}</p>
+                    <p className="truncate text-xs text-gray-500">@{user.handle}</p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth } from '../utils/api';
+import { Link, conversationPath } from '../utils/router';
+
+interface ConversationSummary {
+  id: string;
+  user: {
+    id: string;
+    name: string;
+    handle?: string;
+    avatar?: string;
+  } | null;
+  lastMessage: {
+    senderId: string;
+    content: string;
+    createdAt: string;
+  } | null;
+  updatedAt: string;
+  unreadCount: number;
+}
+
+interface MessagesPageProps {
+  userId: string;
+}
+
+export function MessagesPage({ userId }: MessagesPageProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchConversations();
+  }, []);
+
+  const fetchConversations = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await getWithAuth(`/conversations${query}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat pesan');
+      }
+
+      setConversations(prev => cursor ? [...prev, ...(data.conversations || [])] : (data.conversations || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch conversations error:', error);
+      toast.error(error.message || 'Gagal memuat pesan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-gray-900">Pesan</h2>
+
+      {conversations.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Belum ada pesan. Buka profil pengguna lalu pilih "Kirim pesan".</p>
+        </Card>
+      ) : (
+        <Card className="divide-y overflow-hidden shadow-md">
+          {conversations.map(conversation => (
+            <Link
+              key={conversation.id}
+              to={conversationPath(conversation.id)}
+              className={`flex items-center gap-3 p-4 hover:bg-gray-50 ${conversation.unreadCount > 0 ? 'bg-blue-50' : ''}`}
+            >
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={conversation.user?.avatar} />
+                <AvatarFallback className="bg-blue-500 text-white">
+                  {(conversation.user?.name || '?').charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className="truncate font-semibold text-gray-900">
+                    {conversation.user?.name || 'Pengguna tidak ditemukan'}
+                  </p>
+                  <span className="shrink-0 text-xs text-gray-400">
+                    {new Date(conversation.updatedAt).toLocaleDateString('id-ID')}
+                  </span>
+                </div>
+                {conversation.lastMessage && (
+                  <p className={`truncate text-sm ${conversation.unreadCount > 0 ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                    {conversation.lastMessage.senderId === userId && 'Anda: '}
+                    {conversation.lastMessage.content}
+                  </p>
+                )}
+              </div>
+              {conversation.unreadCount > 0 && (
+                <span className="min-w-5 shrink-0 rounded-full bg-blue-500 px-1.5 text-center text-xs font-semibold text-white">
+                  {conversation.unreadCount}
+                </span>
+              )}
+            </Link>
+          ))}
+        </Card>
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat pesan...</p>
+        </Card>
+      )}
+
+      {nextCursor && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => fetchConversations(nextCursor)}>
+          Muat lebih banyak
+        </Button>
+      )}
+    </div>
+  );
+}
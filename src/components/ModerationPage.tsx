@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, postWithAuth } from '../utils/api';
+import { Link, postPath, profilePath } from '../utils/router';
+import { reportReasons, type ReportTargetType } from './ReportDialog';
+
+type ReportStatus = 'open' | 'resolved';
+type ModerationAction = 'dismiss' | 'remove' | 'warn' | 'suspend';
+
+interface ReportUser {
+  id: string;
+  name: string;
+  handle?: string;
+  avatar?: string;
+}
+
+interface Report {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  postId: string | null;
+  status: ReportStatus;
+  reasons: Record<string, number>;
+  reportsCount: number;
+  entries: { reporterId: string; reason: string; details: string; createdAt: string }[];
+  createdAt: string;
+  resolvedAt: string | null;
+  target: { id: string; content?: string; bio?: string; postId?: string } | null;
+  author: (ReportUser & { suspendedAt: string | null }) | null;
+  actions: { id: string; action: ModerationAction; note: string; createdAt: string; moderator: ReportUser | null }[];
+}
+
+const targetLabels: Record<ReportTargetType, string> = {
+  post: 'Postingan',
+  comment: 'Komentar',
+  user: 'Profil'
+};
+
+const actionLabels: Record<ModerationAction, string> = {
+  dismiss: 'Abaikan',
+  remove: 'Hapus konten',
+  warn: 'Peringatkan',
+  suspend: 'Tangguhkan'
+};
+
+const actionHistoryLabels: Record<ModerationAction, string> = {
+  dismiss: 'mengabaikan laporan',
+  remove: 'menghapus konten',
+  warn: 'memperingatkan pembuat konten',
+  suspend: 'menangguhkan akun'
+};
+
+// Aksi yang tidak bisa dibatalkan dari antrean perlu konfirmasi
+const confirmMessages: Partial<Record<ModerationAction, string>> = {
+  remove: 'Hapus konten yang dilaporkan?',
+  suspend: 'Tangguhkan akun pembuat konten?'
+};
+
+const reasonLabel = (reason: string) => reportReasons.find(option => option.value === reason)?.label || reason;
+
+export function ModerationPage() {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  // Menangguhkan akun hanya boleh dilakukan admin
+  const [canSuspend, setCanSuspend] = useState(false);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingReportId, setPendingReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReports([]);
+    fetchReports();
+  }, [status]);
+
+  useEffect(() => {
+    fetchRole();
+  }, []);
+
+  const fetchRole = async () => {
+    try {
+      const response = await getWithAuth('/me');
+      const data = await response.json();
+
+      if (response.ok) {
+        setCanSuspend(data.user.role === 'admin');
+      }
+    } catch (error) {
+      console.error('Fetch role error:', error);
+    }
+  };
+
+  const fetchReports = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ status });
+      if (cursor) params.set('cursor', cursor);
+      const response = await getWithAuth(`/moderation/reports?${params}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'Halaman ini hanya untuk moderator' : data.error || 'Gagal memuat laporan');
+      }
+
+      setReports(prev => cursor ? [...prev, ...(data.reports || [])] : (data.reports || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch reports error:', error);
+      toast.error(error.message || 'Gagal memuat laporan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAction = async (report: Report, action: ModerationAction) => {
+    const confirmMessage = confirmMessages[action];
+    if (confirmMessage && !window.confirm(confirmMessage)) {
+      return;
+    }
+
+    setPendingReportId(report.id);
+    try {
+      const response = await postWithAuth(`/moderation/reports/${report.id}/actions`, { action });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menjalankan tindakan');
+      }
+
+      // Laporan yang baru diselesaikan pindah dari antrean terbuka
+      setReports(prev => status === 'open' && data.report.status !== 'open'
+        ? prev.filter(r => r.id !== report.id)
+        : prev.map(r => r.id === report.id ? data.report : r));
+      toast.success('Tindakan moderasi disimpan');
+    } catch (error: any) {
+      console.error('Moderation action error:', error);
+      toast.error(error.message || 'Gagal menjalankan tindakan');
+    } finally {
+      setPendingReportId(null);
+    }
+  };
+
+  const targetLink = (report: Report) => {
+    if (report.targetType === 'user') {
+      return profilePath(report.targetId);
+    }
+    return report.postId ? postPath(report.postId) : null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-gray-900">Moderasi</h2>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="open">Antrean</TabsTrigger>
+          <TabsTrigger value="resolved">Selesai</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {reports.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">
+            {status === 'open' ? 'Tidak ada laporan yang menunggu' : 'Belum ada laporan yang diselesaikan'}
+          </p>
+        </Card>
+      ) : (
+        reports.map(report => {
+          const link = targetLink(report);
+          const preview = report.target?.content ?? report.target?.bio;
+
+          return (
+            <Card key={report.id} className="p-4 shadow-md space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">{targetLabels[report.targetType]}</Badge>
+                {Object.entries(report.reasons).map(([reason, count]) => (
+                  <Badge key={reason} variant="outline">
+                    {reasonLabel(reason)} · {count}
+                  </Badge>
+                ))}
+                <span className="ml-auto text-xs text-gray-400">
+                  {report.reportsCount} laporan · {new Date(report.createdAt).toLocaleString('id-ID')}
+                </span>
+              </div>
+
+              {report.author && (
+                <Link to={profilePath(report.author.id)} className="flex items-center gap-2">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={report.author.avatar} />
+                    <AvatarFallback className="bg-blue-500 text-white text-xs">
+                      {report.author.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="font-medium text-gray-900">{report.author.name}</span>
+                  {report.author.handle && <span className="text-sm text-gray-500">@{report.author.handle}</span>}
+                  {report.author.suspendedAt && <Badge variant="destructive">Ditangguhkan</Badge>}
+                </Link>
+              )}
+
+              <div className="rounded-lg bg-gray-50 p-3">
+                {report.target ? (
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+                    {preview || <span className="italic text-gray-400">Tanpa teks</span>}
+                  </p>
+                ) : (
+                  <p className="text-sm italic text-gray-400">Konten sudah tidak tersedia</p>
+                )}
+                {link && report.target && (
+                  <Link to={link} className="text-xs text-blue-500 hover:underline">
+                    Lihat {targetLabels[report.targetType].toLowerCase()}
+                  </Link>
+                )}
+              </div>
+
+              {report.entries.some(entry => entry.details) && (
+                <ul className="space-y-1 text-sm text-gray-600">
+                  {report.entries.filter(entry => entry.details).map(entry => (
+                    <li key={entry.reporterId}>
+                      <span className="font-medium">{reasonLabel(entry.reason)}:</span> {entry.details}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {report.actions.length > 0 && (
+                <ul className="space-y-1 text-xs text-gray-500">
+                  {report.actions.map(action => (
+                    <li key={action.id}>
+                      {action.moderator?.name || 'Moderator'} {actionHistoryLabels[action.action]} ·{' '}
+                      {new Date(action.createdAt).toLocaleString('id-ID')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(actionLabels) as ModerationAction[])
+                  .filter(action => (status === 'open' || action !== 'dismiss') && (canSuspend || action !== 'suspend'))
+                  .map(action => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      variant={action === 'suspend' || action === 'remove' ? 'destructive' : 'outline'}
+                      disabled={
+                        pendingReportId === report.id
+                        || (action === 'remove' && !report.target)
+                        || (action === 'suspend' && !!report.author?.suspendedAt)
+                      }
+                      onClick={() => handleAction(report, action)}
+                    >
+                      {actionLabels[action]}
+                    </Button>
+                  ))}
+              </div>
+            </Card>
+          );
+        })
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat laporan...</p>
+        </Card>
+      )}
+
+      {nextCursor && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => fetchReports(nextCursor)}>
+          Muat lebih banyak
+        </Button>
+      )}
+    </div>
+  );
+}
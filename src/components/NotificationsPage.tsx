@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { AtSign, Heart, MessageCircle, Reply, ShieldAlert, UserPlus } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, postWithAuth } from '../utils/api';
+import { navigate, postPath, profilePath } from '../utils/router';
+import { refreshUnreadCount } from '../utils/notifications';
+
+type NotificationType = 'like' | 'comment' | 'reply' | 'follow' | 'mention' | 'warning';
+
+interface NotificationActor {
+  id: string;
+  name: string;
+  handle?: string;
+  avatar?: string;
+}
+
+interface Notification {
+  id: string;
+  type: NotificationType;
+  actors: NotificationActor[];
+  actorsCount: number;
+  postId: string | null;
+  commentId: string | null;
+  post: { id: string; content: string } | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+const notificationText: Record<NotificationType, string> = {
+  like: 'menyukai postingan Anda',
+  comment: 'mengomentari postingan Anda',
+  reply: 'membalas komentar Anda',
+  follow: 'mulai mengikuti Anda',
+  mention: 'menyebut Anda',
+  warning: 'memberi Anda peringatan karena konten yang melanggar pedoman komunitas'
+};
+
+const notificationIcons: Record<NotificationType, React.ReactNode> = {
+  like: <Heart className="h-4 w-4 text-red-500" />,
+  comment: <MessageCircle className="h-4 w-4 text-blue-500" />,
+  reply: <Reply className="h-4 w-4 text-blue-500" />,
+  follow: <UserPlus className="h-4 w-4 text-green-500" />,
+  mention: <AtSign className="h-4 w-4 text-purple-500" />,
+  warning: <ShieldAlert className="h-4 w-4 text-red-500" />
+};
+
+// "Budi", "Budi dan Siti", atau "Budi dan 3 lainnya". Peringatan dikirim atas nama moderator.
+function formatActors(notification: Notification) {
+  const [firstActor, secondActor] = notification.actors;
+  const name = firstActor?.name || (notification.type === 'warning' ? 'Moderator' : 'Seseorang');
+
+  if (notification.actorsCount <= 1) {
+    return name;
+  }
+  if (notification.actorsCount === 2 && secondActor) {
+    return `${name} dan ${secondActor.name}`;
+  }
+  return `${name} dan ${notification.actorsCount - 1} lainnya`;
+}
+
+export function NotificationsPage() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, []);
+
+  const fetchNotifications = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await getWithAuth(`/notifications${query}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat notifikasi');
+      }
+
+      setNotifications(prev => cursor ? [...prev, ...(data.notifications || [])] : (data.notifications || []));
+      setNextCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch notifications error:', error);
+      toast.error(error.message || 'Gagal memuat notifikasi');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const markAsRead = async (ids?: string[]) => {
+    const response = await postWithAuth('/notifications/read', ids ? { ids } : {});
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Gagal menandai notifikasi');
+    }
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n =>
+      !n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n
+    ));
+    refreshUnreadCount();
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAsRead();
+    } catch (error: any) {
+      console.error('Mark notifications read error:', error);
+      toast.error(error.message || 'Gagal menandai notifikasi');
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      // Navigasi tetap berjalan walaupun gagal menandai dibaca
+      markAsRead([notification.id]).catch(error => {
+        console.error('Mark notification read error:', error);
+      });
+    }
+
+    if (notification.postId) {
+      navigate(postPath(notification.postId));
+    } else if (notification.actors[0]) {
+      navigate(profilePath(notification.actors[0].id));
+    }
+  };
+
+  const hasUnread = notifications.some(n => !n.readAt);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Notifikasi</h2>
+        <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={!hasUnread}>
+          Tandai semua dibaca
+        </Button>
+      </div>
+
+      {notifications.length === 0 && !isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Belum ada notifikasi</p>
+        </Card>
+      ) : (
+        <Card className="divide-y overflow-hidden shadow-md">
+          {notifications.map(notification => {
+            const firstActor = notification.actors[0];
+
+            return (
+              <button
+                key={notification.id}
+                type="button"
+                className={`flex w-full items-start gap-3 p-4 text-left hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50'}`}
+                onClick={() => handleOpen(notification)}
+              >
+                <div className="relative">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={firstActor?.avatar} />
+                    <AvatarFallback className="bg-blue-500 text-white">
+                      {(firstActor?.name || '?').charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="absolute -bottom-1 -right-1 rounded-full bg-white p-0.5">
+                    {notificationIcons[notification.type]}
+                  </span>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-semibold">{formatActors(notification)}</span>{' '}
+                    {notificationText[notification.type]}
+                  </p>
+                  {notification.post && (
+                    <p className="truncate text-sm text-gray-500">{notification.post.content}</p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    {new Date(notification.createdAt).toLocaleString('id-ID')}
+                  </p>
+                </div>
+                {!notification.readAt && (
+                  <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-blue-500" aria-label="Belum dibaca" />
+                )}
+              </button>
+            );
+          })}
+        </Card>
+      )}
+
+      {isLoading && (
+        <Card className="p-4 text-center">
+          <p className="text-sm text-gray-500">Memuat notifikasi...</p>
+        </Card>
+      )}
+
+      {nextCursor && !isLoading && (
+        <Button variant="outline" className="w-full" onClick={() => fetchNotifications(nextCursor)}>
+          Muat lebih banyak
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,62 +1,139 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent } from './ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Button } from './ui/button';
-import { Heart, MessageCircle, Trash2 } from 'lucide-react';
+import { Textarea } from './ui/textarea';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Flag, Heart, MessageCircle, Pencil, Quote, Repeat2, Trash2 } from 'lucide-react';
 import { CommentsSection } from './CommentsSection';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { PostHistoryDialog } from './PostHistoryDialog';
+import { PostMediaGrid, type PostMedia } from './PostMediaGrid';
+import { RichText, type Mention } from './RichText';
+import { QuotedPost } from './QuotedPost';
+import { QuotePostDialog } from './QuotePostDialog';
+import { BookmarkButton } from './BookmarkButton';
+import { ReportDialog } from './ReportDialog';
 import { toast } from 'sonner@2.0.3';
-import { postWithAuth } from '../utils/api';
+import { postWithAuth, putWithAuth } from '../utils/api';
+import { Link, profilePath, postPath } from '../utils/router';
+import { useRealtimeEvent } from '../utils/realtime';
 
-interface Post {
+export interface Post {
   id: string;
   userId: string;
   content: string;
+  mentions?: Mention[];
+  media?: PostMedia[];
+  repostOf?: string | null;
+  quoteOf?: string | null;
+  // Disertakan server untuk repost dan kutipan; null jika postingan aslinya sudah dihapus
+  repostedPost?: Post | null;
+  quotedPost?: Post | null;
   createdAt: string;
+  editedAt?: string;
   user: {
     id: string;
     name: string;
+    handle?: string;
     avatar?: string;
   } | null;
   likesCount: number;
   commentsCount: number;
+  repostsCount?: number;
+  quotesCount?: number;
+  // Status milik pengguna yang sedang login, disertakan server di daftar dan detail postingan
+  liked?: boolean;
+  reposted?: boolean;
+  bookmarked?: boolean;
+  bookmarkCollectionId?: string | null;
 }
 
+// Sama dengan batas waktu edit di server
+const POST_EDIT_WINDOW_MS = 60 * 60 * 1000;
+
+// Ditolak server saat salah satu akun memblokir yang lain
+const BLOCKED_ERROR = 'You cannot interact with this user';
+const BLOCKED_MESSAGE = 'Anda tidak dapat berinteraksi dengan akun ini';
+
 interface PostCardProps {
   post: Post;
   currentUserId: string;
   accessToken: string;
   onDelete: (postId: string) => void;
   onUpdate: (post: Post) => void;
+  onBookmarkChange?: (postId: string, bookmarked: boolean) => void;
+  defaultShowComments?: boolean;
 }
 
-export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate }: PostCardProps) {
-  const [isLiked, setIsLiked] = useState(false);
+export function PostCard(props: PostCardProps) {
+  return props.post.repostOf ? <RepostCard {...props} /> : <PostCardBody {...props} />;
+}
+
+// Repost biasa ditampilkan sebagai postingan aslinya dengan keterangan siapa yang memposting ulang
+function RepostCard({ post, currentUserId, onUpdate, ...props }: PostCardProps) {
+  const [isUndone, setIsUndone] = useState(false);
+
+  if (isUndone) {
+    return null;
+  }
+
+  const isOwnRepost = post.userId === currentUserId;
+
+  return (
+    <div>
+      <p className="flex items-center gap-2 px-4 pb-1 text-sm text-gray-500">
+        <Repeat2 className="h-4 w-4" />
+        <Link to={profilePath(post.userId)} className="hover:underline">
+          {isOwnRepost ? 'Anda' : post.user?.name || 'Unknown User'} memposting ulang
+        </Link>
+      </p>
+      {post.repostedPost ? (
+        <PostCardBody
+          {...props}
+          post={post.repostedPost}
+          currentUserId={currentUserId}
+          onUpdate={(updated) => onUpdate({ ...post, repostedPost: updated })}
+          onRepostChange={(reposted) => isOwnRepost && !reposted && setIsUndone(true)}
+        />
+      ) : (
+        <Card className="p-4 shadow-md">
+          <p className="text-sm text-gray-500">Postingan telah dihapus</p>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface PostCardBodyProps extends PostCardProps {
+  onRepostChange?: (reposted: boolean) => void;
+}
+
+function PostCardBody({ post, currentUserId, accessToken, onDelete, onUpdate, onBookmarkChange, onRepostChange, defaultShowComments = false }: PostCardBodyProps) {
+  const [isLiked, setIsLiked] = useState(!!post.liked);
   const [likesCount, setLikesCount] = useState(post.likesCount);
   const [commentsCount, setCommentsCount] = useState(post.commentsCount);
-  const [showComments, setShowComments] = useState(false);
+  const [showComments, setShowComments] = useState(defaultShowComments);
   const [isLoadingLike, setIsLoadingLike] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(post.content);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isReposted, setIsReposted] = useState(!!post.reposted);
+  const [repostsCount, setRepostsCount] = useState(post.repostsCount || 0);
+  const [quotesCount, setQuotesCount] = useState(post.quotesCount || 0);
+  const [isLoadingRepost, setIsLoadingRepost] = useState(false);
+  const [showQuoteDialog, setShowQuoteDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
-  // Check if user already liked this post
-  useEffect(() => {
-    const checkLike = async () => {
-      try {
-        const response = await fetch(
-          `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/posts/${post.id}/like/check`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-        const data = await response.json();
-        setIsLiked(data.liked);
-      } catch (error) {
-        console.error('Check like error:', error);
-      }
-    };
-    checkLike();
-  }, [post.id, accessToken]);
+  // Perbarui jumlah suka dan komentar saat pengguna lain berinteraksi dengan postingan ini
+  useRealtimeEvent('post.stats', (stats) => {
+    if (stats.postId === post.id) {
+      setLikesCount(stats.likesCount);
+      setCommentsCount(stats.commentsCount);
+      setRepostsCount(stats.repostsCount || 0);
+      setQuotesCount(stats.quotesCount || 0);
+    }
+  });
 
   const handleLike = async () => {
     setIsLoadingLike(true);
@@ -72,16 +149,18 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
       
       if (!response.ok) {
         console.error('Like failed:', data);
-        throw new Error(data.error || 'Gagal menyukai postingan');
+        throw new Error(data.error === BLOCKED_ERROR ? BLOCKED_MESSAGE : data.error || 'Gagal menyukai postingan');
       }
       
+      const newLikesCount = data.likesCount ?? (data.liked ? likesCount + 1 : likesCount - 1);
       setIsLiked(data.liked);
-      setLikesCount(prev => data.liked ? prev + 1 : prev - 1);
+      setLikesCount(newLikesCount);
       
       // Update parent
       onUpdate({
         ...post,
-        likesCount: data.liked ? likesCount + 1 : likesCount - 1
+        liked: data.liked,
+        likesCount: newLikesCount
       });
       
     } catch (error: any) {
@@ -99,6 +178,33 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
     }
   };
 
+  const handleRepost = async () => {
+    setIsLoadingRepost(true);
+    try {
+      const response = await postWithAuth(`/posts/${post.id}/repost`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error === BLOCKED_ERROR ? BLOCKED_MESSAGE : data.error || 'Gagal memposting ulang');
+      }
+
+      setIsReposted(data.reposted);
+      setRepostsCount(data.repostsCount);
+      onUpdate({
+        ...post,
+        reposted: data.reposted,
+        repostsCount: data.repostsCount
+      });
+      onRepostChange?.(data.reposted);
+      toast.success(data.reposted ? 'Postingan diposting ulang' : 'Posting ulang dibatalkan');
+    } catch (error: any) {
+      console.error('Repost error:', error);
+      toast.error(error.message || 'Gagal memposting ulang');
+    } finally {
+      setIsLoadingRepost(false);
+    }
+  };
+
   const handleCommentAdded = () => {
     setCommentsCount(prev => prev + 1);
     onUpdate({
@@ -107,6 +213,49 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
     });
   };
 
+  const handleCommentDeleted = () => {
+    setCommentsCount(prev => Math.max(0, prev - 1));
+    onUpdate({
+      ...post,
+      commentsCount: Math.max(0, commentsCount - 1)
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editContent.trim() && !post.media?.length) {
+      toast.error('Postingan tidak boleh kosong');
+      return;
+    }
+
+    if (editContent.length > 280) {
+      toast.error('Postingan maksimal 280 karakter');
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      const response = await putWithAuth(`/posts/${post.id}`, { content: editContent });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal mengedit postingan');
+      }
+
+      onUpdate({
+        ...post,
+        content: data.post.content,
+        mentions: data.post.mentions,
+        editedAt: data.post.editedAt
+      });
+      setIsEditing(false);
+    } catch (error: any) {
+      console.error('Edit post error:', error);
+      toast.error(error.message || 'Gagal mengedit postingan');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -123,46 +272,135 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
   };
 
   const isOwnPost = post.userId === currentUserId;
+  const canEdit = isOwnPost && Date.now() - new Date(post.createdAt).getTime() <= POST_EDIT_WINDOW_MS;
 
   return (
     <Card className="p-4 shadow-md hover:shadow-lg transition-shadow">
       <div className="flex gap-3">
         {/* Avatar */}
-        <Avatar className="h-10 w-10">
-          <AvatarImage src={post.user?.avatar} />
-          <AvatarFallback className="bg-blue-500 text-white">
-            {post.user?.name?.charAt(0).toUpperCase() || 'U'}
-          </AvatarFallback>
-        </Avatar>
+        <Link to={profilePath(post.userId)} className="self-start rounded-full">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={post.user?.avatar} />
+            <AvatarFallback className="bg-blue-500 text-white">
+              {post.user?.name?.charAt(0).toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+        </Link>
 
         <div className="flex-1">
           {/* Header */}
           <div className="flex items-center justify-between mb-2">
             <div>
-              <p className="font-semibold text-gray-900">
+              <Link
+                to={profilePath(post.userId)}
+                className="font-semibold text-gray-900 hover:underline"
+              >
                 {post.user?.name || 'Unknown User'}
-              </p>
-              <p className="text-sm text-gray-500">
-                {formatDate(post.createdAt)}
-              </p>
+              </Link>
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                {post.user?.handle && (
+                  <span>@{post.user.handle} ·</span>
+                )}
+                <Link to={postPath(post.id)} className="hover:underline">
+                  {formatDate(post.createdAt)}
+                </Link>
+                {post.editedAt && (
+                  <button
+                    type="button"
+                    className="text-xs text-gray-400 hover:underline"
+                    title={new Date(post.editedAt).toLocaleString('id-ID')}
+                    onClick={() => setShowHistory(true)}
+                  >
+                    diedit
+                  </button>
+                )}
+              </div>
             </div>
             
             {isOwnPost && (
+              <div className="flex">
+                {canEdit && !isEditing && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditContent(post.content);
+                      setIsEditing(true);
+                    }}
+                    className="text-gray-500 hover:text-blue-500 hover:bg-blue-50"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(post.id)}
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {!isOwnPost && (
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => onDelete(post.id)}
-                className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                title="Laporkan"
+                onClick={() => setShowReportDialog(true)}
+                className="text-gray-400 hover:text-red-500 hover:bg-red-50"
               >
-                <Trash2 className="h-4 w-4" />
+                <Flag className="h-4 w-4" />
               </Button>
             )}
           </div>
 
           {/* Content */}
-          <p className="text-gray-800 mb-3 whitespace-pre-wrap break-words">
-            {post.content}
-          </p>
+          {isEditing ? (
+            <div className="mb-3 space-y-2">
+              <Textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                disabled={isSavingEdit}
+                className="min-h-[80px] resize-none"
+                autoFocus
+              />
+              <div className="flex items-center justify-between">
+                <span className={`text-sm ${editContent.length > 280 ? 'text-red-500' : 'text-gray-500'}`}>
+                  {editContent.length}/280
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSavingEdit}
+                    onClick={() => setIsEditing(false)}
+                  >
+                    Batal
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={isSavingEdit || (!editContent.trim() && !post.media?.length) || editContent.length > 280}
+                    onClick={handleSaveEdit}
+                  >
+                    {isSavingEdit ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : post.content && (
+            <p className="text-gray-800 mb-3 whitespace-pre-wrap break-words">
+              <RichText text={post.content} mentions={post.mentions} />
+            </p>
+          )}
+
+          {post.media && post.media.length > 0 && (
+            <PostMediaGrid media={post.media} />
+          )}
+
+          {post.quoteOf && (
+            <QuotedPost post={post.quotedPost ?? null} />
+          )}
 
           {/* Actions - Always visible for all posts */}
           <div className="flex gap-4 items-center border-t pt-3 mt-2">
@@ -190,6 +428,45 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
               <MessageCircle className="h-5 w-5" />
               <span className="font-medium">{commentsCount}</span>
             </Button>
+
+            <BookmarkButton
+              postId={post.id}
+              bookmarked={!!post.bookmarked}
+              collectionId={post.bookmarkCollectionId || null}
+              onChange={(bookmarked, collectionId) => {
+                onUpdate({ ...post, bookmarked, bookmarkCollectionId: collectionId });
+                onBookmarkChange?.(post.id, bookmarked);
+              }}
+            />
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isLoadingRepost}
+                  title={quotesCount > 0 ? `${quotesCount} kutipan` : undefined}
+                  className={`flex items-center gap-2 transition-all ${
+                    isReposted
+                      ? 'text-green-600 hover:text-green-700 hover:bg-green-50'
+                      : 'text-gray-500 hover:text-green-600 hover:bg-green-50'
+                  }`}
+                >
+                  <Repeat2 className="h-5 w-5" />
+                  <span className="font-medium">{repostsCount + quotesCount}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onSelect={handleRepost}>
+                  <Repeat2 className="h-4 w-4 mr-2" />
+                  {isReposted ? 'Batalkan posting ulang' : 'Posting ulang'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowQuoteDialog(true)}>
+                  <Quote className="h-4 w-4 mr-2" />
+                  Kutip
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             
             {!isOwnPost && (
               <span className="text-xs text-gray-400 ml-auto">
@@ -203,11 +480,36 @@ export function PostCard({ post, currentUserId, accessToken, onDelete, onUpdate
             <CommentsSection
               postId={post.id}
               accessToken={accessToken}
+              currentUserId={currentUserId}
+              postOwnerId={post.userId}
               onCommentAdded={handleCommentAdded}
+              onCommentDeleted={handleCommentDeleted}
             />
           )}
         </div>
       </div>
+
+      <ReportDialog
+        targetType="post"
+        targetId={post.id}
+        open={showReportDialog}
+        onClose={() => setShowReportDialog(false)}
+      />
+
+      <QuotePostDialog
+        post={post}
+        open={showQuoteDialog}
+        onClose={() => setShowQuoteDialog(false)}
+        onQuoted={() => setQuotesCount(prev => prev + 1)}
+      />
+
+      {post.editedAt && (
+        <PostHistoryDialog
+          postId={post.id}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
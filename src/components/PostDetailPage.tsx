@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { ArrowLeft } from 'lucide-react';
+import { PostCard, type Post } from './PostCard';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+import { deleteWithAuth, getWithAuth } from '../utils/api';
+import { Link, navigate, feedPath, profilePath } from '../utils/router';
+
+interface Author {
+  id: string;
+  name: string;
+  bio: string;
+  avatar: string;
+}
+
+interface PostDetailPageProps {
+  accessToken: string;
+  userId: string;
+  postId: string;
+}
+
+export function PostDetailPage({ accessToken, userId, postId }: PostDetailPageProps) {
+  const [post, setPost] = useState<Post | null>(null);
+  const [author, setAuthor] = useState<Author | null>(null);
+  const [authorFollowers, setAuthorFollowers] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPost();
+  }, [postId]);
+
+  const fetchPost = async () => {
+    setIsLoading(true);
+    try {
+      // Token pengguna dibutuhkan agar server bisa menyembunyikan postingan dari akun yang diblokir
+      const response = await getWithAuth(`/posts/${postId}`);
+      
+      const data = await response.json();
+      
+      if (response.status === 404) {
+        setPost(null);
+        return;
+      }
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat postingan');
+      }
+      
+      setPost(data.post);
+      fetchAuthor(data.post.userId);
+    } catch (error: any) {
+      console.error('Fetch post error:', error);
+      toast.error(error.message || 'Gagal memuat postingan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchAuthor = async (authorId: string) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/${authorId}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`
+          }
+        }
+      );
+      
+      const data = await response.json();
+      
+      if (response.ok) {
+        setAuthor(data.user);
+        setAuthorFollowers(data.stats.followers);
+      }
+    } catch (error) {
+      console.error('Fetch author error:', error);
+    }
+  };
+
+  const handleDeletePost = async (targetPostId: string) => {
+    if (!window.confirm('Yakin ingin menghapus postingan ini?')) {
+      return;
+    }
+    
+    try {
+      const response = await deleteWithAuth(`/posts/${targetPostId}`);
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus postingan');
+      }
+      
+      toast.success(data.message || 'Postingan berhasil dihapus!');
+      navigate(feedPath(), { replace: true });
+      
+    } catch (error: any) {
+      console.error('Delete post error:', error);
+      toast.error(error.message || 'Gagal menghapus postingan');
+    }
+  };
+
+  const handleBack = () => {
+    // Shared links open with no history to go back to
+    if (window.history.length > 1) {
+      window.history.back();
+    } else {
+      navigate(feedPath());
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={handleBack}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Kembali
+      </Button>
+
+      {isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Memuat postingan...</p>
+        </Card>
+      ) : !post ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Postingan tidak ditemukan</p>
+        </Card>
+      ) : (
+        <>
+          {/* Author Card */}
+          {author && (
+            <Card className="p-4 shadow-md">
+              <Link to={profilePath(author.id)} className="flex items-center gap-3">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={author.avatar} />
+                  <AvatarFallback className="bg-blue-500 text-white">
+                    {author.name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900">{author.name}</p>
+                  {author.bio && (
+                    <p className="text-sm text-gray-600 truncate">{author.bio}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">{authorFollowers} Pengikut</p>
+                </div>
+              </Link>
+            </Card>
+          )}
+
+          <PostCard
+            post={post}
+            currentUserId={userId}
+            accessToken={accessToken}
+            onDelete={handleDeletePost}
+            onUpdate={setPost}
+            defaultShowComments
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+
+interface PostRevision {
+  content: string;
+  createdAt: string;
+}
+
+interface PostHistoryDialogProps {
+  postId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function PostHistoryDialog({ postId, open, onClose }: PostHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, postId]);
+
+  const fetchRevisions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/posts/${postId}/revisions`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`
+          }
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat riwayat edit');
+      }
+
+      setRevisions(data.revisions || []);
+    } catch (error: any) {
+      console.error('Fetch revisions error:', error);
+      toast.error(error.message || 'Gagal memuat riwayat edit');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Newest version first, like the rest of the app
+  const orderedRevisions = [...revisions].reverse();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Riwayat edit</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-4">Memuat...</p>
+        ) : (
+          <div className="space-y-3">
+            {orderedRevisions.map((revision, index) => (
+              <div key={revision.createdAt} className="rounded-lg border p-3">
+                <p className="text-xs text-gray-500 mb-1">
+                  {index === 0 ? 'Versi saat ini' : index === orderedRevisions.length - 1 ? 'Versi asli' : 'Versi sebelumnya'}
+                  {' · '}
+                  {new Date(revision.createdAt).toLocaleString('id-ID')}
+                </p>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+                  {revision.content}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from './ui/carousel';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+
+export interface PostMedia {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+interface PostMediaGridProps {
+  media: PostMedia[];
+}
+
+// Tata letak grid mengikuti jumlah gambar: 1 penuh, 2 berdampingan, 3 dengan satu gambar tinggi, 4 kotak 2x2
+const gridClasses: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 grid-rows-2',
+  4: 'grid-cols-2 grid-rows-2'
+};
+
+export function PostMediaGrid({ media }: PostMediaGridProps) {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (media.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className={`grid gap-1 mb-3 overflow-hidden rounded-lg ${gridClasses[media.length] || gridClasses[4]}`}>
+        {media.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            className={`block bg-gray-100 ${media.length === 3 && index === 0 ? 'row-span-2' : ''}`}
+            onClick={() => setViewerIndex(index)}
+          >
+            <ImageWithFallback
+              src={item.thumbnailUrl}
+              alt={`Gambar ${index + 1}`}
+              className={`w-full object-cover ${media.length === 1 ? 'max-h-96' : 'h-full min-h-32 max-h-64'}`}
+              loading="lazy"
+            />
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={viewerIndex !== null} onOpenChange={(open) => !open && setViewerIndex(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogTitle className="sr-only">Gambar postingan</DialogTitle>
+          {viewerIndex !== null && (
+            <Carousel opts={{ startIndex: viewerIndex }}>
+              <CarouselContent>
+                {media.map((item, index) => (
+                  <CarouselItem key={item.id} className="flex items-center justify-center">
+                    <ImageWithFallback
+                      src={item.url}
+                      alt={`Gambar ${index + 1}`}
+                      className="max-h-[75vh] w-auto object-contain"
+                    />
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              {media.length > 1 && (
+                <>
+                  <CarouselPrevious className="left-2" />
+                  <CarouselNext className="right-2" />
+                </>
+              )}
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,56 +1,109 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Card } from './ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { Home, Search, User, LogOut, Edit2, Save, X } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Edit2, Save, X, UserPlus, UserCheck, Camera, MoreHorizontal, Ban, VolumeX, Volume2, Flag } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
 import { toast } from 'sonner@2.0.3';
-import { CrowLogo } from './CrowLogo';
-import { putWithAuth } from '../utils/api';
+import { putWithAuth, postWithAuth, deleteWithAuth, getWithAuth, uploadWithAuth } from '../utils/api';
+import { cropToSquare } from '../utils/image';
+import { HANDLE_PATTERN, HANDLE_CHANGE_COOLDOWN_DAYS, normalizeHandle } from '../utils/handle';
+import { FollowListDialog } from './FollowListDialog';
+import { SendMessageButton } from './SendMessageButton';
+import { ReportDialog } from './ReportDialog';
+import { PostCard, type Post } from './PostCard';
+import { navigate, profilePath } from '../utils/router';
 
 interface UserProfile {
   id: string;
-  email: string;
+  email?: string;
   name: string;
+  handle?: string;
+  handleChangedAt?: string | null;
   bio: string;
   avatar: string;
   createdAt: string;
 }
 
+interface Relationship {
+  blocking: boolean;
+  blockedBy: boolean;
+  muting: boolean;
+}
+
+const NO_RELATIONSHIP: Relationship = { blocking: false, blockedBy: false, muting: false };
+
+// Foto profil dipotong persegi dan diperkecil di browser sebelum diunggah
+const AVATAR_SIZE = 512;
+const AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
 interface ProfilePageProps {
   accessToken: string;
   userId: string;
-  onLogout: () => void;
-  onNavigate: (page: 'feed' | 'search' | 'profile') => void;
-  currentPage: 'feed' | 'search' | 'profile';
+  profileUserId: string;
 }
 
-export function ProfilePage({ accessToken, userId, onLogout, onNavigate, currentPage }: ProfilePageProps) {
+export function ProfilePage({ accessToken, userId, profileUserId }: ProfilePageProps) {
+  const isOwnProfile = profileUserId === userId;
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   
   const [editName, setEditName] = useState('');
+  const [editHandle, setEditHandle] = useState('');
   const [editBio, setEditBio] = useState('');
   const [editAvatar, setEditAvatar] = useState('');
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
   
   const [followersCount, setFollowersCount] = useState(0);
   const [followingCount, setFollowingCount] = useState(0);
+  const [followListType, setFollowListType] = useState<'followers' | 'following' | null>(null);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isLoadingFollow, setIsLoadingFollow] = useState(false);
+  const [relationship, setRelationship] = useState<Relationship>(NO_RELATIONSHIP);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const isBlocked = relationship.blocking || relationship.blockedBy;
+  
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [postsCursor, setPostsCursor] = useState<string | null>(null);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
 
   useEffect(() => {
-    if (currentPage === 'profile') {
-      fetchProfile();
+    setIsEditing(false);
+    setFollowListType(null);
+    setRelationship(NO_RELATIONSHIP);
+    fetchProfile();
+    fetchPosts();
+    if (!isOwnProfile) {
+      checkFollowStatus();
+      fetchRelationship();
     }
-  }, [currentPage, userId]);
+  }, [profileUserId]);
+
+  // Email dan data akun lain hanya tersedia lewat /me untuk profil sendiri
+  const fetchAccount = async () => {
+    try {
+      const response = await getWithAuth('/me');
+      const data = await response.json();
+
+      if (response.ok) {
+        setProfile(prev => prev ? { ...prev, ...data.user } : data.user);
+      }
+    } catch (error) {
+      console.error('Fetch account error:', error);
+    }
+  };
 
   const fetchProfile = async () => {
     setIsLoading(true);
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/${userId}`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/${profileUserId}`,
         {
           headers: {
             'Authorization': `Bearer ${publicAnonKey}`
@@ -66,11 +119,16 @@ export function ProfilePage({ accessToken, userId, onLogout, onNavigate, current
       
       setProfile(data.user);
       setEditName(data.user.name);
+      setEditHandle(data.user.handle || '');
       setEditBio(data.user.bio || '');
       setEditAvatar(data.user.avatar || '');
       setFollowersCount(data.stats.followers);
       setFollowingCount(data.stats.following);
       
+      if (isOwnProfile) {
+        fetchAccount();
+      }
+      
     } catch (error: any) {
       console.error('Fetch profile error:', error);
       toast.error(error.message || 'Gagal memuat profil');
@@ -79,17 +137,189 @@ export function ProfilePage({ accessToken, userId, onLogout, onNavigate, current
     }
   };
 
+  const fetchPosts = async (cursor?: string) => {
+    setIsLoadingPosts(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await getWithAuth(`/users/${profileUserId}/posts${query}`);
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat postingan');
+      }
+      
+      setPosts(prev => cursor ? [...prev, ...(data.posts || [])] : (data.posts || []));
+      setPostsCursor(data.nextCursor || null);
+    } catch (error: any) {
+      console.error('Fetch user posts error:', error);
+      toast.error(error.message || 'Gagal memuat postingan');
+    } finally {
+      setIsLoadingPosts(false);
+    }
+  };
+
+  const checkFollowStatus = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/follows/${profileUserId}/check`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        }
+      );
+      
+      const data = await response.json();
+      
+      if (response.ok) {
+        setIsFollowing(data.following);
+      }
+    } catch (error) {
+      console.error('Check follow status error:', error);
+    }
+  };
+
+  const fetchRelationship = async () => {
+    try {
+      const response = await getWithAuth(`/users/${profileUserId}/relationship`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setRelationship(data);
+      }
+    } catch (error) {
+      console.error('Fetch relationship error:', error);
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    if (!relationship.blocking && !window.confirm(`Blokir ${profile?.name}? Kalian akan saling berhenti mengikuti dan tidak bisa saling berinteraksi.`)) {
+      return;
+    }
+
+    try {
+      const response = relationship.blocking
+        ? await deleteWithAuth(`/blocks/${profileUserId}`)
+        : await postWithAuth(`/blocks/${profileUserId}`, {});
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memperbarui blokir');
+      }
+
+      setRelationship(prev => ({ ...prev, blocking: data.blocking }));
+      toast.success(data.blocking ? 'Akun diblokir' : 'Blokir dibuka');
+
+      // Blokir memutus hubungan mengikuti dua arah, jadi profil dan postingan dimuat ulang
+      setIsFollowing(false);
+      fetchProfile();
+      fetchPosts();
+    } catch (error: any) {
+      console.error('Toggle block error:', error);
+      toast.error(error.message || 'Gagal memperbarui blokir');
+    }
+  };
+
+  const handleToggleMute = async () => {
+    try {
+      const response = relationship.muting
+        ? await deleteWithAuth(`/mutes/${profileUserId}`)
+        : await postWithAuth(`/mutes/${profileUserId}`, {});
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memperbarui bisukan');
+      }
+
+      setRelationship(prev => ({ ...prev, muting: data.muting }));
+      toast.success(data.muting ? 'Akun dibisukan' : 'Akun tidak lagi dibisukan');
+    } catch (error: any) {
+      console.error('Toggle mute error:', error);
+      toast.error(error.message || 'Gagal memperbarui bisukan');
+    }
+  };
+
+  const handleToggleFollow = async () => {
+    setIsLoadingFollow(true);
+    try {
+      const response = await postWithAuth(`/follows/${profileUserId}`, {});
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal mengikuti pengguna');
+      }
+      
+      setIsFollowing(data.following);
+      setFollowersCount(prev => data.following ? prev + 1 : Math.max(0, prev - 1));
+      toast.success(data.following ? 'Berhasil mengikuti' : 'Berhenti mengikuti');
+      
+    } catch (error: any) {
+      console.error('Toggle follow error:', error);
+      
+      // Check if it's a session error
+      if (error.message && error.message.includes('login again')) {
+        toast.error('Sesi Anda telah berakhir. Silakan login kembali.');
+      } else {
+        toast.error(error.message === 'You cannot interact with this user'
+          ? 'Anda tidak dapat berinteraksi dengan akun ini'
+          : error.message || 'Gagal mengikuti pengguna');
+      }
+    } finally {
+      setIsLoadingFollow(false);
+    }
+  };
+
+  const handleDeletePost = async (postId: string) => {
+    if (!window.confirm('Yakin ingin menghapus postingan ini?')) {
+      return;
+    }
+    
+    try {
+      const response = await deleteWithAuth(`/posts/${postId}`);
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menghapus postingan');
+      }
+      
+      toast.success(data.message || 'Postingan berhasil dihapus!');
+      setPosts(posts.filter(p => p.id !== postId));
+      
+    } catch (error: any) {
+      console.error('Delete post error:', error);
+      toast.error(error.message || 'Gagal menghapus postingan');
+    }
+  };
+
+  const handlePostUpdate = (updatedPost: Post) => {
+    setPosts(posts.map(p => p.id === updatedPost.id ? updatedPost : p));
+  };
+
+  const handleOpenFollowUser = (targetUserId: string) => {
+    setFollowListType(null);
+    navigate(profilePath(targetUserId));
+  };
+
   const handleSave = async () => {
     if (!editName.trim()) {
       toast.error('Nama tidak boleh kosong');
       return;
     }
     
+    if (!HANDLE_PATTERN.test(normalizeHandle(editHandle))) {
+      toast.error('Handle harus 3-20 karakter berupa huruf kecil, angka atau garis bawah');
+      return;
+    }
+    
     setIsSaving(true);
     
     try {
-      const response = await putWithAuth(`/users/${userId}`, {
+      const response = await putWithAuth(`/users/${profileUserId}`, {
         name: editName,
+        handle: normalizeHandle(editHandle),
         bio: editBio,
         avatar: editAvatar
       });
@@ -119,15 +349,59 @@ export function ProfilePage({ accessToken, userId, onLogout, onNavigate, current
     }
   };
 
+  const handleSelectAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    if (!AVATAR_TYPES.includes(file.type)) {
+      toast.error('Foto profil harus berformat JPEG, PNG atau GIF');
+      return;
+    }
+
+    setIsUploadingAvatar(true);
+    try {
+      const avatarFile = await cropToSquare(file, AVATAR_SIZE);
+      const response = await uploadWithAuth(`/users/${profileUserId}/avatar`, avatarFile);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal mengunggah foto profil');
+      }
+
+      setProfile(data.user);
+      setEditAvatar(data.user.avatar || '');
+      toast.success('Foto profil berhasil diperbarui!');
+    } catch (error: any) {
+      console.error('Upload avatar error:', error);
+      toast.error(error.message || 'Gagal mengunggah foto profil');
+    } finally {
+      setIsUploadingAvatar(false);
+    }
+  };
+
   const handleCancelEdit = () => {
     if (profile) {
       setEditName(profile.name);
+      setEditHandle(profile.handle || '');
       setEditBio(profile.bio || '');
       setEditAvatar(profile.avatar || '');
     }
     setIsEditing(false);
   };
 
+  // Tanggal handle boleh diganti lagi, atau null jika sudah boleh sekarang
+  const nextHandleChange = (() => {
+    if (!profile?.handleChangedAt) {
+      return null;
+    }
+    const next = new Date(new Date(profile.handleChangedAt).getTime() + HANDLE_CHANGE_COOLDOWN_DAYS * 86400000);
+    return next.getTime() > Date.now() ? next : null;
+  })();
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('id-ID', { 
@@ -138,181 +412,310 @@ export function ProfilePage({ accessToken, userId, onLogout, onNavigate, current
   };
 
   return (
-    <div className="min-h-screen bg-gray-50" style={{ display: currentPage !== 'profile' ? 'none' : 'block' }}>
-      {/* Header */}
-      <header className="bg-white border-b sticky top-0 z-10 shadow-sm">
-        <div className="max-w-2xl mx-auto px-4 py-3 flex items-center justify-between">
-          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
-            <CrowLogo size={32} className="text-gray-900" />
-            Crow
-          </h1>
-          <Button variant="ghost" size="icon" onClick={onLogout}>
-            <LogOut className="h-5 w-5" />
-          </Button>
-        </div>
-      </header>
-
-      <div className="max-w-2xl mx-auto px-4 py-6 pb-24">
-        {isLoading ? (
-          <Card className="p-8 text-center">
-            <p className="text-gray-500">Memuat profil...</p>
-          </Card>
-        ) : profile ? (
-          <Card className="shadow-lg">
-            {/* Cover */}
-            <div className="h-32 bg-gradient-to-r from-blue-400 to-indigo-500"></div>
-            
-            {/* Profile Info */}
-            <div className="px-6 pb-6">
-              {/* Avatar */}
-              <div className="flex justify-between items-start -mt-16 mb-4">
-                <Avatar className="h-32 w-32 border-4 border-white shadow-xl">
-                  <AvatarImage src={editAvatar} />
-                  <AvatarFallback className="bg-blue-500 text-white text-4xl">
-                    {editName.charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                
-                {!isEditing ? (
+    <div>
+      {isLoading ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Memuat profil...</p>
+        </Card>
+      ) : profile ? (
+        <Card className="shadow-lg">
+          {/* Cover */}
+          <div className="h-32 bg-gradient-to-r from-blue-400 to-indigo-500"></div>
+          
+          {/* Profile Info */}
+          <div className="px-6 pb-6">
+            {/* Avatar */}
+            <div className="flex justify-between items-start -mt-16 mb-4">
+              <Avatar className="h-32 w-32 border-4 border-white shadow-xl">
+                <AvatarImage src={editAvatar} />
+                <AvatarFallback className="bg-blue-500 text-white text-4xl">
+                  {editName.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              
+              {!isOwnProfile ? (
+                <div className="flex gap-2 mt-16">
+                  {relationship.blocking ? (
+                    <Button variant="outline" onClick={handleToggleBlock}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      Buka blokir
+                    </Button>
+                  ) : !relationship.blockedBy && (
+                    <>
+                      <SendMessageButton userId={profileUserId} />
+                      <Button
+                        onClick={handleToggleFollow}
+                        disabled={isLoadingFollow}
+                        variant={isFollowing ? 'outline' : 'default'}
+                      >
+                        {isFollowing ? (
+                          <>
+                            <UserCheck className="h-4 w-4 mr-2" />
+                            Mengikuti
+                          </>
+                        ) : (
+                          <>
+                            <UserPlus className="h-4 w-4 mr-2" />
+                            Ikuti
+                          </>
+                        )}
+                      </Button>
+                    </>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="icon" aria-label="Opsi lainnya">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={handleToggleMute}>
+                        {relationship.muting ? (
+                          <>
+                            <Volume2 className="h-4 w-4 mr-2" />
+                            Bunyikan
+                          </>
+                        ) : (
+                          <>
+                            <VolumeX className="h-4 w-4 mr-2" />
+                            Bisukan
+                          </>
+                        )}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={handleToggleBlock} className="text-red-600">
+                        <Ban className="h-4 w-4 mr-2" />
+                        {relationship.blocking ? 'Buka blokir' : 'Blokir'}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => setShowReportDialog(true)} className="text-red-600">
+                        <Flag className="h-4 w-4 mr-2" />
+                        Laporkan
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              ) : !isEditing ? (
+                <Button
+                  onClick={() => setIsEditing(true)}
+                  variant="outline"
+                  className="mt-16"
+                >
+                  <Edit2 className="h-4 w-4 mr-2" />
+                  Edit Profil
+                </Button>
+              ) : (
+                <div className="flex gap-2 mt-16">
+                  <Button
+                    onClick={handleSave}
+                    disabled={isSaving || isUploadingAvatar}
+                    size="sm"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {isSaving ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
                   <Button
-                    onClick={() => setIsEditing(true)}
+                    onClick={handleCancelEdit}
                     variant="outline"
-                    className="mt-16"
+                    size="sm"
+                    disabled={isSaving}
                   >
-                    <Edit2 className="h-4 w-4 mr-2" />
-                    Edit Profil
+                    <X className="h-4 w-4 mr-2" />
+                    Batal
                   </Button>
-                ) : (
-                  <div className="flex gap-2 mt-16">
-                    <Button
-                      onClick={handleSave}
-                      disabled={isSaving}
-                      size="sm"
-                    >
-                      <Save className="h-4 w-4 mr-2" />
-                      {isSaving ? 'Menyimpan...' : 'Simpan'}
-                    </Button>
-                    <Button
-                      onClick={handleCancelEdit}
-                      variant="outline"
-                      size="sm"
-                      disabled={isSaving}
-                    >
-                      <X className="h-4 w-4 mr-2" />
-                      Batal
-                    </Button>
-                  </div>
-                )}
-              </div>
+                </div>
+              )}
+            </div>
 
-              {/* Profile Details */}
-              {!isEditing ? (
-                <div className="space-y-3">
-                  <div>
-                    <h2 className="text-2xl font-bold text-gray-900">{profile.name}</h2>
-                    <p className="text-gray-500">{profile.email}</p>
-                  </div>
-                  
-                  {profile.bio && (
-                    <p className="text-gray-700">{profile.bio}</p>
+            {/* Profile Details */}
+            {!isEditing ? (
+              <div className="space-y-3">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900">{profile.name}</h2>
+                  {profile.handle && (
+                    <p className="text-gray-500">@{profile.handle}</p>
+                  )}
+                  {isOwnProfile && profile.email && (
+                    <p className="text-sm text-gray-500">{profile.email}</p>
                   )}
-                  
-                  <div className="flex gap-6 text-sm">
-                    <div>
-                      <span className="font-bold text-gray-900">{followingCount}</span>
-                      <span className="text-gray-500 ml-1">Mengikuti</span>
-                    </div>
-                    <div>
-                      <span className="font-bold text-gray-900">{followersCount}</span>
-                      <span className="text-gray-500 ml-1">Pengikut</span>
-                    </div>
-                  </div>
-                  
-                  <p className="text-sm text-gray-500">
-                    Bergabung {formatDate(profile.createdAt)}
-                  </p>
                 </div>
-              ) : (
-                <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-semibold text-gray-700 mb-1 block">
-                      Nama
-                    </label>
+                
+                {profile.bio && (
+                  <p className="text-gray-700">{profile.bio}</p>
+                )}
+                
+                <div className="flex gap-6 text-sm">
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onClick={() => setFollowListType('following')}
+                  >
+                    <span className="font-bold text-gray-900">{followingCount}</span>
+                    <span className="text-gray-500 ml-1">Mengikuti</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onClick={() => setFollowListType('followers')}
+                  >
+                    <span className="font-bold text-gray-900">{followersCount}</span>
+                    <span className="text-gray-500 ml-1">Pengikut</span>
+                  </button>
+                </div>
+                
+                <p className="text-sm text-gray-500">
+                  Bergabung {formatDate(profile.createdAt)}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-semibold text-gray-700 mb-1 block">
+                    Nama
+                  </label>
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    placeholder="Nama lengkap"
+                    disabled={isSaving}
+                  />
+                </div>
+                
+                <div>
+                  <label className="text-sm font-semibold text-gray-700 mb-1 block">
+                    Handle
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">@</span>
                     <Input
-                      value={editName}
-                      onChange={(e) => setEditName(e.target.value)}
-                      placeholder="Nama lengkap"
-                      disabled={isSaving}
+                      value={editHandle}
+                      onChange={(e) => setEditHandle(e.target.value)}
+                      placeholder="username"
+                      className="pl-7"
+                      autoCapitalize="none"
+                      disabled={isSaving || !!nextHandleChange}
                     />
                   </div>
-                  
-                  <div>
-                    <label className="text-sm font-semibold text-gray-700 mb-1 block">
-                      Bio
-                    </label>
-                    <Textarea
-                      value={editBio}
-                      onChange={(e) => setEditBio(e.target.value)}
-                      placeholder="Ceritakan tentang diri Anda..."
-                      rows={3}
-                      disabled={isSaving}
-                    />
-                  </div>
-                  
-                  <div>
-                    <label className="text-sm font-semibold text-gray-700 mb-1 block">
-                      URL Avatar (opsional)
-                    </label>
-                    <Input
-                      value={editAvatar}
-                      onChange={(e) => setEditAvatar(e.target.value)}
-                      placeholder="https://example.com/avatar.jpg"
-                      disabled={isSaving}
-                    />
-                    <p className="text-xs text-gray-500 mt-1">
-                      Masukkan URL gambar untuk foto profil
-                    </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {nextHandleChange
+                      ? `Handle bisa diganti lagi pada ${formatDate(nextHandleChange.toISOString())}`
+                      : `Handle hanya bisa diganti sekali setiap ${HANDLE_CHANGE_COOLDOWN_DAYS} hari`}
+                  </p>
+                </div>
+                
+                <div>
+                  <label className="text-sm font-semibold text-gray-700 mb-1 block">
+                    Bio
+                  </label>
+                  <Textarea
+                    value={editBio}
+                    onChange={(e) => setEditBio(e.target.value)}
+                    placeholder="Ceritakan tentang diri Anda..."
+                    rows={3}
+                    disabled={isSaving}
+                  />
+                </div>
+                
+                <div>
+                  <label className="text-sm font-semibold text-gray-700 mb-1 block">
+                    Foto Profil
+                  </label>
+                  <input
+                    ref={avatarInputRef}
+                    type="file"
+                    accept={AVATAR_TYPES.join(',')}
+                    className="hidden"
+                    onChange={handleSelectAvatar}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => avatarInputRef.current?.click()}
+                      disabled={isSaving || isUploadingAvatar}
+                    >
+                      <Camera className="h-4 w-4 mr-2" />
+                      {isUploadingAvatar ? 'Mengunggah...' : 'Pilih foto'}
+                    </Button>
+                    {editAvatar && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditAvatar('')}
+                        disabled={isSaving || isUploadingAvatar}
+                      >
+                        Hapus foto
+                      </Button>
+                    )}
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Foto akan dipotong menjadi persegi
+                  </p>
                 </div>
-              )}
-            </div>
-          </Card>
-        ) : (
-          <Card className="p-8 text-center">
-            <p className="text-gray-500">Profil tidak ditemukan</p>
-          </Card>
-        )}
-      </div>
-
-      {/* Bottom Navigation */}
-      <nav className="fixed bottom-0 left-0 right-0 bg-white border-t shadow-lg">
-        <div className="max-w-2xl mx-auto px-4 py-3 flex justify-around">
-          <Button
-            variant={currentPage === 'feed' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('feed')}
-          >
-            <Home className="h-5 w-5 mr-2" />
-            Beranda
-          </Button>
-          <Button
-            variant={currentPage === 'search' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('search')}
-          >
-            <Search className="h-5 w-5 mr-2" />
-            Cari
-          </Button>
-          <Button
-            variant={currentPage === 'profile' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => onNavigate('profile')}
-          >
-            <User className="h-5 w-5 mr-2" />
-            Profil
-          </Button>
+              </div>
+            )}
+          </div>
+        </Card>
+      ) : (
+        <Card className="p-8 text-center">
+          <p className="text-gray-500">Profil tidak ditemukan</p>
+        </Card>
+      )}
+
+      {/* User Posts */}
+      {profile && (
+        <div className="space-y-4 mt-6">
+          <h3 className="text-lg font-bold text-gray-900">Postingan</h3>
+          {isBlocked ? (
+            <Card className="p-8 text-center">
+              <p className="text-gray-500">
+                {relationship.blocking ? 'Anda memblokir akun ini' : 'Postingan akun ini tidak tersedia'}
+              </p>
+            </Card>
+          ) : posts.length === 0 && !isLoadingPosts ? (
+            <Card className="p-8 text-center">
+              <p className="text-gray-500">Belum ada postingan</p>
+            </Card>
+          ) : (
+            posts.map(post => (
+              <PostCard
+                key={post.id}
+                post={post}
+                currentUserId={userId}
+                accessToken={accessToken}
+                onDelete={handleDeletePost}
+                onUpdate={handlePostUpdate}
+              />
+            ))
+          )}
+          {isLoadingPosts && (
+            <Card className="p-4 text-center">
+              <p className="text-sm text-gray-500">Memuat postingan...</p>
+            </Card>
+          )}
+          {postsCursor && !isLoadingPosts && (
+            <Button variant="outline" className="w-full" onClick={() => fetchPosts(postsCursor)}>
+              Muat lebih banyak
+            </Button>
+          )}
         </div>
-      </nav>
+      )}
+
+      {!isOwnProfile && (
+        <ReportDialog
+          targetType="user"
+          targetId={profileUserId}
+          open={showReportDialog}
+          onClose={() => setShowReportDialog(false)}
+        />
+      )}
+
+      <FollowListDialog
+        userId={profileUserId}
+        type={followListType}
+        onClose={() => setFollowListType(null)}
+        onSelectUser={handleOpenFollowUser}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { QuotedPost } from './QuotedPost';
+import { toast } from 'sonner@2.0.3';
+import { postWithAuth } from '../utils/api';
+import type { Post } from './PostCard';
+
+interface QuotePostDialogProps {
+  post: Post;
+  open: boolean;
+  onClose: () => void;
+  onQuoted: (quote: Post) => void;
+}
+
+export function QuotePostDialog({ post, open, onClose, onQuoted }: QuotePostDialogProps) {
+  const [content, setContent] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!content.trim()) {
+      toast.error('Kutipan tidak boleh kosong');
+      return;
+    }
+
+    if (content.length > 280) {
+      toast.error('Kutipan maksimal 280 karakter');
+      return;
+    }
+
+    setIsPosting(true);
+    try {
+      const response = await postWithAuth('/posts', { content, quoteOf: post.id });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error === 'You cannot interact with this user'
+          ? 'Anda tidak dapat berinteraksi dengan akun ini'
+          : data.error || 'Gagal memposting kutipan');
+      }
+
+      toast.success('Kutipan berhasil diposting!');
+      setContent('');
+      onQuoted(data.post);
+      onClose();
+    } catch (error: any) {
+      console.error('Quote post error:', error);
+      toast.error(error.message || 'Gagal memposting kutipan');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Kutip postingan</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Textarea
+            placeholder="Tambahkan komentar..."
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="resize-none"
+            rows={3}
+            disabled={isPosting}
+            autoFocus
+          />
+          <QuotedPost post={post} />
+          <div className="flex items-center justify-between">
+            <span className={`text-sm ${content.length > 280 ? 'text-red-500' : 'text-gray-500'}`}>
+              {content.length}/280
+            </span>
+            <Button type="submit" disabled={isPosting || !content.trim() || content.length > 280}>
+              {isPosting ? 'Memposting...' : 'Kutip'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { PostMediaGrid } from './PostMediaGrid';
+import { RichText } from './RichText';
+import { navigate, postPath } from '../utils/router';
+import type { Post } from './PostCard';
+
+interface QuotedPostProps {
+  post: Post | null;
+}
+
+/**
+ * Kartu kecil untuk postingan yang dikutip, atau penanda jika postingan itu sudah dihapus
+ */
+export function QuotedPost({ post }: QuotedPostProps) {
+  if (!post) {
+    return (
+      <div className="mb-3 rounded-lg border border-dashed bg-gray-50 p-3">
+        <p className="text-sm text-gray-500">Postingan telah dihapus</p>
+      </div>
+    );
+  }
+
+  // Tautan dan tombol gambar di dalam kartu tetap berfungsi sendiri
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('a, button')) {
+      return;
+    }
+    navigate(postPath(post.id));
+  };
+
+  return (
+    <div
+      role="link"
+      tabIndex={0}
+      className="mb-3 cursor-pointer rounded-lg border p-3 hover:bg-gray-50"
+      onClick={handleClick}
+      onKeyDown={(e) => e.key === 'Enter' && navigate(postPath(post.id))}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <Avatar className="h-5 w-5">
+          <AvatarImage src={post.user?.avatar} />
+          <AvatarFallback className="bg-blue-500 text-white text-xs">
+            {post.user?.name?.charAt(0).toUpperCase() || 'U'}
+          </AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-semibold text-gray-900">{post.user?.name || 'Unknown User'}</span>
+        <span className="text-sm text-gray-500">
+          {post.user?.handle && `@${post.user.handle} · `}
+          {new Date(post.createdAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}
+        </span>
+      </div>
+      {post.content && (
+        <p className="text-sm text-gray-800 mb-2 whitespace-pre-wrap break-words">
+          <RichText text={post.content} mentions={post.mentions} />
+        </p>
+      )}
+      {post.media && post.media.length > 0 && (
+        <PostMediaGrid media={post.media} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { toast } from 'sonner@2.0.3';
+import { postWithAuth } from '../utils/api';
+
+export type ReportTargetType = 'post' | 'comment' | 'user';
+
+// Harus sama dengan REPORT_REASONS di server
+export const reportReasons: { value: string; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Pelecehan atau perundungan' },
+  { value: 'hate', label: 'Ujaran kebencian' },
+  { value: 'violence', label: 'Kekerasan atau ancaman' },
+  { value: 'nudity', label: 'Konten seksual' },
+  { value: 'misinformation', label: 'Informasi palsu' },
+  { value: 'other', label: 'Lainnya' }
+];
+
+const MAX_DETAILS_LENGTH = 500;
+
+const dialogTitles: Record<ReportTargetType, string> = {
+  post: 'Laporkan postingan',
+  comment: 'Laporkan komentar',
+  user: 'Laporkan akun'
+};
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // Komentar hanya bisa ditemukan server lewat postingannya
+  postId?: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ReportDialog({ targetType, targetId, postId, open, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setReason('');
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      toast.error('Pilih alasan laporan');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await postWithAuth('/reports', { targetType, targetId, postId, reason, details });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal mengirim laporan');
+      }
+
+      toast.success(data.alreadyReported ? 'Anda sudah melaporkan konten ini' : 'Laporan terkirim. Terima kasih!');
+      handleClose();
+    } catch (error: any) {
+      console.error('Report error:', error);
+      toast.error(error.message || 'Gagal mengirim laporan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{dialogTitles[targetType]}</DialogTitle>
+          <DialogDescription>Laporan Anda hanya dilihat oleh moderator.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason} disabled={isSubmitting}>
+            {reportReasons.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} />
+                <Label htmlFor={`report-reason-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <Textarea
+            placeholder="Keterangan tambahan (opsional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            className="resize-none"
+            rows={3}
+            maxLength={MAX_DETAILS_LENGTH}
+            disabled={isSubmitting}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Batal
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !reason}>
+              {isSubmitting ? 'Mengirim...' : 'Kirim laporan'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
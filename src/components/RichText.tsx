@@ -0,0 +1,84 @@
+import { Fragment } from 'react';
+import { Link, hashtagPath, profilePath } from '../utils/router';
+
+// Harus sama dengan pola hashtag dan mention di server
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]{1,50})/gu;
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@.])@([A-Za-z0-9_]{3,20})(?![A-Za-z0-9_])/gu;
+
+export interface Mention {
+  handle: string;
+  userId: string;
+}
+
+interface RichTextProps {
+  text: string;
+  mentions?: Mention[];
+  linkHashtags?: boolean;
+}
+
+interface Token {
+  start: number;
+  end: number;
+  node: React.ReactNode;
+}
+
+/**
+ * Menampilkan teks postingan atau komentar dengan hashtag dan mention sebagai tautan
+ */
+export function RichText({ text, mentions = [], linkHashtags = true }: RichTextProps) {
+  const userIdsByHandle = new Map(mentions.map(mention => [mention.handle, mention.userId]));
+  const tokens: Token[] = [];
+
+  if (linkHashtags) {
+    for (const match of text.matchAll(HASHTAG_PATTERN)) {
+      const [, prefix, tag] = match;
+      if (!/\p{L}/u.test(tag)) {
+        continue;
+      }
+
+      const start = match.index! + prefix.length;
+      tokens.push({
+        start,
+        end: start + tag.length + 1,
+        node: (
+          <Link to={hashtagPath(tag)} className="text-blue-500 hover:underline">
+            #{tag}
+          </Link>
+        )
+      });
+    }
+  }
+
+  // Hanya handle yang dikenali server yang dijadikan tautan
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const [, prefix, handle] = match;
+    const userId = userIdsByHandle.get(handle.toLowerCase());
+    if (!userId) {
+      continue;
+    }
+
+    const start = match.index! + prefix.length;
+    tokens.push({
+      start,
+      end: start + handle.length + 1,
+      node: (
+        <Link to={profilePath(userId)} className="text-blue-500 hover:underline">
+          @{handle}
+        </Link>
+      )
+    });
+  }
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const token of tokens.sort((a, b) => a.start - b.start)) {
+    if (token.start < lastIndex) {
+      continue;
+    }
+    parts.push(text.slice(lastIndex, token.start), token.node);
+    lastIndex = token.end;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return <>{parts.map((part, index) => <Fragment key={index}>{part}</Fragment>)}</>;
+}
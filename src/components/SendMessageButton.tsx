@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Mail } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { openConversation } from '../utils/messages';
+
+interface SendMessageButtonProps {
+  userId: string;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+export function SendMessageButton({ userId, size = 'default', className }: SendMessageButtonProps) {
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleClick = async () => {
+    setIsOpening(true);
+    try {
+      await openConversation(userId);
+    } catch (error: any) {
+      console.error('Open conversation error:', error);
+      toast.error(
+        error.message?.includes('only accepts messages')
+          ? 'Pengguna ini hanya menerima pesan dari akun yang diikutinya'
+          : error.message || 'Gagal membuka percakapan'
+      );
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size={size} className={className} onClick={handleClick} disabled={isOpening}>
+      <Mail className="h-4 w-4 mr-2" />
+      Kirim pesan
+    </Button>
+  );
+}
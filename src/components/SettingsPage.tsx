@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Separator } from './ui/separator';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { LogOut, Shield, User, Users } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { getWithAuth, putWithAuth, deleteWithAuth } from '../utils/api';
+import { Link, adminPath, moderationPath, profilePath } from '../utils/router';
+import type { UserRole } from './AdminPage';
+
+interface ListedUser {
+  id: string;
+  name: string;
+  handle?: string;
+  avatar?: string;
+}
+
+interface SettingsPageProps {
+  userId: string;
+  onLogout: () => void;
+}
+
+export function SettingsPage({ userId, onLogout }: SettingsPageProps) {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [dmPolicy, setDmPolicy] = useState<'everyone' | 'following'>('everyone');
+  const [isSavingDmPolicy, setIsSavingDmPolicy] = useState(false);
+  const [role, setRole] = useState<UserRole>('user');
+  const [suspendedAt, setSuspendedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAccount();
+  }, [userId]);
+
+  const fetchAccount = async () => {
+    try {
+      const response = await getWithAuth('/me');
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat akun');
+      }
+      
+      setEmail(data.user.email || '');
+      setName(data.user.name || '');
+      setDmPolicy(data.user.dmPolicy || 'everyone');
+      setRole(data.user.role || 'user');
+      setSuspendedAt(data.user.suspendedAt || null);
+    } catch (error: any) {
+      console.error('Fetch account error:', error);
+      toast.error(error.message || 'Gagal memuat akun');
+    }
+  };
+
+  const handleDmPolicyChange = async (onlyFollowing: boolean) => {
+    const nextPolicy = onlyFollowing ? 'following' : 'everyone';
+    setIsSavingDmPolicy(true);
+    try {
+      const response = await putWithAuth(`/users/${userId}`, { dmPolicy: nextPolicy });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menyimpan pengaturan');
+      }
+
+      setDmPolicy(data.user.dmPolicy);
+      toast.success('Pengaturan pesan disimpan');
+    } catch (error: any) {
+      console.error('Update DM setting error:', error);
+      toast.error(error.message || 'Gagal menyimpan pengaturan');
+    } finally {
+      setIsSavingDmPolicy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Pengaturan</h2>
+
+      {suspendedAt && (
+        <Card className="p-4 border-red-200 bg-red-50">
+          <p className="text-sm text-red-700">
+            Akun Anda ditangguhkan sejak {new Date(suspendedAt).toLocaleDateString('id-ID')}. Anda masih bisa membaca,
+            tetapi tidak bisa memposting, berkomentar, atau berinteraksi.
+          </p>
+        </Card>
+      )}
+
+      {/* Account */}
+      <Card className="p-6 shadow-md space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Akun</h3>
+          <p className="text-sm text-gray-500">{name}</p>
+          <p className="text-sm text-gray-500">{email}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to={profilePath(userId)}>
+            <User className="h-4 w-4 mr-2" />
+            Edit Profil
+          </Link>
+        </Button>
+        {role !== 'user' && (
+          <Button variant="outline" asChild className="ml-2">
+            <Link to={moderationPath()}>
+              <Shield className="h-4 w-4 mr-2" />
+              Antrean moderasi
+            </Link>
+          </Button>
+        )}
+        {role === 'admin' && (
+          <Button variant="outline" asChild className="ml-2">
+            <Link to={adminPath()}>
+              <Users className="h-4 w-4 mr-2" />
+              Kelola pengguna
+            </Link>
+          </Button>
+        )}
+        <Separator />
+        <Button variant="destructive" onClick={onLogout}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Keluar
+        </Button>
+      </Card>
+
+      {/* Direct messages */}
+      <Card className="p-6 shadow-md space-y-4">
+        <h3 className="font-semibold text-gray-900">Pesan langsung</h3>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="dm-policy" className="flex flex-col items-start gap-1">
+            <span>Hanya dari akun yang saya ikuti</span>
+            <span className="text-sm font-normal text-gray-500">
+              Pengguna lain tidak dapat mengirimi Anda pesan kecuali Anda mengikuti mereka
+            </span>
+          </Label>
+          <Switch
+            id="dm-policy"
+            checked={dmPolicy === 'following'}
+            onCheckedChange={handleDmPolicyChange}
+            disabled={isSavingDmPolicy}
+          />
+        </div>
+      </Card>
+
+      {/* Blocked and muted accounts */}
+      <RestrictedAccountsCard
+        title="Akun yang diblokir"
+        description="Akun yang diblokir tidak dapat melihat postingan Anda atau berinteraksi dengan Anda"
+        path="/blocks"
+        emptyText="Tidak ada akun yang diblokir"
+        actionLabel="Buka blokir"
+        successMessage="Blokir dibuka"
+      />
+      <RestrictedAccountsCard
+        title="Akun yang dibisukan"
+        description="Postingan dan notifikasi dari akun yang dibisukan tidak ditampilkan di beranda Anda"
+        path="/mutes"
+        emptyText="Tidak ada akun yang dibisukan"
+        actionLabel="Bunyikan"
+        successMessage="Akun tidak lagi dibisukan"
+      />
+    </div>
+  );
+}
+
+interface RestrictedAccountsCardProps {
+  title: string;
+  description: string;
+  path: '/blocks' | '/mutes';
+  emptyText: string;
+  actionLabel: string;
+  successMessage: string;
+}
+
+/**
+ * Daftar akun yang diblokir atau dibisukan, dengan tombol untuk membatalkannya
+ */
+function RestrictedAccountsCard({ title, description, path, emptyText, actionLabel, successMessage }: RestrictedAccountsCardProps) {
+  const [users, setUsers] = useState<ListedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [path]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await getWithAuth(path);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat daftar akun');
+      }
+
+      setUsers(data.users || []);
+    } catch (error: any) {
+      console.error('Fetch restricted accounts error:', error);
+      toast.error(error.message || 'Gagal memuat daftar akun');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = async (user: ListedUser) => {
+    setPendingUserId(user.id);
+    try {
+      const response = await deleteWithAuth(`${path}/${user.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal menyimpan pengaturan');
+      }
+
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+      toast.success(successMessage);
+    } catch (error: any) {
+      console.error('Remove restricted account error:', error);
+      toast.error(error.message || 'Gagal menyimpan pengaturan');
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-md space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900">{title}</h3>
+        <p className="text-sm text-gray-500">{description}</p>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Memuat...</p>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="space-y-3">
+          {users.map(user => (
+            <div key={user.id} className="flex items-center justify-between gap-3">
+              <Link to={profilePath(user.id)} className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-9 w-9">
+                  <AvatarImage src={user.avatar} />
+                  <AvatarFallback className="bg-blue-500 text-white text-sm">
+                    {user.name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-gray-900">{user.name}</p>
+                  {user.handle && <p className="truncate text-sm text-gray-500">@{user.handle}</p>}
+                </div>
+              </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={pendingUserId === user.id}
+                onClick={() => handleRemove(user)}
+              >
+                {actionLabel}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
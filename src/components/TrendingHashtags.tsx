@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Card } from './ui/card';
+import { TrendingUp } from 'lucide-react';
+import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { Link, hashtagPath } from '../utils/router';
+
+interface TrendingHashtag {
+  tag: string;
+  postsCount: number;
+  score: number;
+}
+
+export function TrendingHashtags() {
+  const [hashtags, setHashtags] = useState<TrendingHashtag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTrending();
+  }, []);
+
+  const fetchTrending = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/hashtags/trending`,
+        {
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`
+          }
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Gagal memuat tren');
+      }
+
+      setHashtags(data.hashtags || []);
+    } catch (error) {
+      // Sidebar tambahan, jadi cukup dicatat tanpa mengganggu pengguna
+      console.error('Fetch trending hashtags error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 shadow-md">
+      <h3 className="flex items-center gap-2 font-bold text-gray-900 mb-3">
+        <TrendingUp className="h-4 w-4 text-blue-500" />
+        Sedang tren
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Memuat...</p>
+      ) : hashtags.length === 0 ? (
+        <p className="text-sm text-gray-500">Belum ada tagar yang sedang tren</p>
+      ) : (
+        <ol className="space-y-2">
+          {hashtags.map((hashtag, index) => (
+            <li key={hashtag.tag}>
+              <Link to={hashtagPath(hashtag.tag)} className="block rounded-lg p-1 hover:bg-gray-50">
+                <p className="text-xs text-gray-500">{index + 1} · Tren</p>
+                <p className="font-semibold text-gray-900">#{hashtag.tag}</p>
+                <p className="text-xs text-gray-500">{hashtag.postsCount} postingan</p>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
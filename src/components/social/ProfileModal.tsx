@@ -85,7 +85,7 @@ export function ProfileModal({ isOpen, onClose, userId, accessToken, currentUser
   const loadUserPosts = async () => {
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/posts/user/${userId}`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/${userId}/posts`,
         {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
@@ -0,0 +1,62 @@
+// This file provides account management and access token verification for the routes.
+//
+// The auth backend is chosen with the AUTH_BACKEND environment variable:
+//   supabase - Supabase Auth, needs SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and SUPABASE_ANON_KEY
+//   local    - accounts in the key-value store, with tokens signed by AUTH_LOCAL_SECRET
+// When unset, it follows KV_BACKEND: supabase for the Supabase table, local otherwise, so the
+// memory and sqlite stores run without a Supabase project.
+import type { AuthAdapter, AuthUser } from "./auth_adapter.tsx";
+
+export type { AuthUser };
+
+export const backend = () =>
+  Deno.env.get("AUTH_BACKEND") || ((Deno.env.get("KV_BACKEND") || "supabase") === "supabase" ? "supabase" : "local");
+
+let adapterPromise: Promise<AuthAdapter> | null = null;
+
+// Backends are imported lazily so a deployment only loads the one it uses
+async function loadAdapter(): Promise<AuthAdapter> {
+  switch (backend()) {
+    case "supabase": {
+      const { createSupabaseAuthAdapter } = await import("./auth_supabase.tsx");
+      return createSupabaseAuthAdapter();
+    }
+    case "local": {
+      const secret = Deno.env.get("AUTH_LOCAL_SECRET");
+      if (!secret) {
+        throw new Error("AUTH_LOCAL_SECRET is required when AUTH_BACKEND is local");
+      }
+      const { createLocalAuthAdapter } = await import("./auth_local.tsx");
+      return createLocalAuthAdapter(secret);
+    }
+    default:
+      throw new Error(`Unknown AUTH_BACKEND: ${backend()}`);
+  }
+}
+
+const adapter = () => {
+  if (!adapterPromise) {
+    adapterPromise = loadAdapter();
+  }
+  return adapterPromise;
+};
+
+// GetUser returns the user an access token belongs to. Throws when the token is invalid or expired.
+export const getUser = async (accessToken: string): Promise<AuthUser> => {
+  return (await adapter()).getUser(accessToken);
+};
+
+// CreateUser registers a confirmed account. Throws when the email is taken or the password is rejected.
+export const createUser = async (email: string, password: string, metadata: Record<string, any>): Promise<AuthUser> => {
+  return (await adapter()).createUser(email, password, metadata);
+};
+
+// DeleteUser removes an account, e.g. when the rest of a sign up failed.
+export const deleteUser = async (id: string): Promise<void> => {
+  return (await adapter()).deleteUser(id);
+};
+
+// SignIn checks an email and password and returns a new access token.
+export const signIn = async (email: string, password: string): Promise<{ accessToken: string; user: AuthUser }> => {
+  return (await adapter()).signIn(email, password);
+};
@@ -0,0 +1,15 @@
+// Auth backends implement this interface so auth.tsx can switch between them.
+// Users have the shape of a Supabase Auth user, so routes can use either backend's result as is.
+// Every method throws an Error with a user-facing message when the operation fails.
+export interface AuthUser {
+  id: string;
+  email: string;
+  user_metadata: Record<string, any>;
+}
+
+export interface AuthAdapter {
+  getUser(accessToken: string): Promise<AuthUser>;
+  createUser(email: string, password: string, metadata: Record<string, any>): Promise<AuthUser>;
+  deleteUser(id: string): Promise<void>;
+  signIn(email: string, password: string): Promise<{ accessToken: string; user: AuthUser }>;
+}
@@ -0,0 +1,120 @@
+// Auth adapter that keeps accounts in the key-value store and signs its own access tokens,
+// for running the server without a Supabase project. Tokens are issued by the login route.
+//
+// Keys:
+//   authuser:{id}     - the account, with a salted PBKDF2 hash of the password
+//   authemail:{email} - the id of the account registered with that email
+import * as kv from "./kv_store.tsx";
+import type { AuthAdapter, AuthUser } from "./auth_adapter.tsx";
+
+const PBKDF2_ITERATIONS = 100_000;
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+async function hashPassword(password: string, salt: Uint8Array): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256,
+  );
+  return toBase64Url(new Uint8Array(bits));
+}
+
+const publicUser = (record: any): AuthUser => ({
+  id: record.id,
+  email: record.email,
+  user_metadata: record.user_metadata,
+});
+
+export async function createLocalAuthAdapter(secret: string): Promise<AuthAdapter> {
+  const signingKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+  // Tokens are `payload.signature`, both base64url, with the user id and expiry in the payload
+  const issueToken = async (userId: string) => {
+    const payload = encoder.encode(JSON.stringify({
+      sub: userId,
+      exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    }));
+    const signature = new Uint8Array(await crypto.subtle.sign("HMAC", signingKey, payload));
+    return `${toBase64Url(payload)}.${toBase64Url(signature)}`;
+  };
+
+  return {
+    async getUser(accessToken) {
+      const [payloadPart, signaturePart] = accessToken.split(".");
+      let payload: Uint8Array, signature: Uint8Array;
+      try {
+        payload = fromBase64Url(payloadPart);
+        signature = fromBase64Url(signaturePart);
+      } catch {
+        throw new Error("Malformed token");
+      }
+      if (!(await crypto.subtle.verify("HMAC", signingKey, signature, payload))) {
+        throw new Error("Invalid token signature");
+      }
+
+      const { sub, exp } = JSON.parse(new TextDecoder().decode(payload));
+      if (exp < Date.now() / 1000) {
+        throw new Error("Token has expired");
+      }
+
+      const record = await kv.get(`authuser:${sub}`);
+      if (!record) {
+        throw new Error("User not found");
+      }
+      return publicUser(record);
+    },
+
+    async createUser(email, password, metadata) {
+      const normalizedEmail = email.trim().toLowerCase();
+      const id = crypto.randomUUID();
+
+      // Claiming the email first keeps two concurrent sign ups from sharing it
+      if (!(await kv.setIfAbsent(`authemail:${normalizedEmail}`, id))) {
+        throw new Error("A user with this email address has already been registered");
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const record = {
+        id,
+        email: normalizedEmail,
+        user_metadata: metadata,
+        salt: toBase64Url(salt),
+        passwordHash: await hashPassword(password, salt),
+        created_at: new Date().toISOString(),
+      };
+      await kv.set(`authuser:${id}`, record);
+      return publicUser(record);
+    },
+
+    async deleteUser(id) {
+      const record = await kv.get(`authuser:${id}`);
+      if (record) {
+        await kv.mdel([`authuser:${id}`, `authemail:${record.email}`]);
+      }
+    },
+
+    async signIn(email, password) {
+      const id = await kv.get(`authemail:${email.trim().toLowerCase()}`);
+      const record = id ? await kv.get(`authuser:${id}`) : null;
+      if (!record || (await hashPassword(password, fromBase64Url(record.salt))) !== record.passwordHash) {
+        throw new Error("Invalid login credentials");
+      }
+      return { accessToken: await issueToken(record.id), user: publicUser(record) };
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Auth adapter backed by Supabase Auth. This is the default backend.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { AuthAdapter, AuthUser } from "./auth_adapter.tsx";
+
+export function createSupabaseAuthAdapter(): AuthAdapter {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+
+  if (!supabaseUrl || !serviceRoleKey || !anonKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  // The service role client creates and deletes users; tokens are verified with the anon key,
+  // the same way the browser client sees them
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+  const anon = createClient(supabaseUrl, anonKey);
+
+  return {
+    async getUser(accessToken) {
+      const { data: { user }, error } = await anon.auth.getUser(accessToken);
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (!user) {
+        throw new Error("User not found");
+      }
+      return user as AuthUser;
+    },
+
+    async createUser(email, password, metadata) {
+      const { data, error } = await admin.auth.admin.createUser({
+        email,
+        password,
+        user_metadata: metadata,
+        // Automatically confirm the user's email since an email server hasn't been configured.
+        email_confirm: true,
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data.user as AuthUser;
+    },
+
+    async deleteUser(id) {
+      const { error } = await admin.auth.admin.deleteUser(id);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    async signIn(email, password) {
+      const { data, error } = await anon.auth.signInWithPassword({ email, password });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { accessToken: data.session.access_token, user: data.user as AuthUser };
+    },
+  };
+}
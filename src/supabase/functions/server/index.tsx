@@ -1,25 +1,14 @@
 import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { streamSSE } from "npm:hono/streaming";
+import { decode, Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
 import * as kv from "./kv_store.tsx";
+import * as auth from "./auth.tsx";
+import * as storage from "./storage.tsx";
+import * as realtime from "./realtime.tsx";
 
-const app = new Hono();
-
-// Get environment variables
-const supabaseUrl = Deno.env.get('SUPABASE_URL');
-const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
-
-if (!supabaseUrl || !serviceRoleKey || !anonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
-
-// Create Supabase client with SERVICE_ROLE_KEY for admin operations
-const supabase = createClient(supabaseUrl, serviceRoleKey);
-
-// Create Supabase client with ANON_KEY for user token verification
-const supabaseAuth = createClient(supabaseUrl, anonKey);
+const app = new Hono<{ Variables: { auth: Promise<any>; account: any } }>();
 
 // Enable logger
 app.use('*', logger(console.log));
@@ -36,8 +25,33 @@ app.use(
   }),
 );
 
-// Helper function to verify auth
-async function verifyAuth(request: Request) {
+// Suspended accounts can still read, but every write route refuses them
+app.use("/make-server-b017b546/*", async (c, next) => {
+  if (['GET', 'HEAD', 'OPTIONS'].includes(c.req.method)) {
+    return next();
+  }
+  
+  // Requests without a valid token are left to the route, which answers 401 where it needs a user
+  const account = await getAccount(c);
+  if (account?.suspendedAt) {
+    return c.json({ error: 'Your account is suspended', suspendedAt: account.suspendedAt }, 403);
+  }
+  
+  await next();
+});
+
+// Helper function to verify auth. The result is kept as c.get('auth'), so a token checked
+// by middleware is not verified again by the route.
+function verifyAuth(c: any) {
+  let result = c.get('auth');
+  if (!result) {
+    result = verifyToken(c.req.raw);
+    c.set('auth', result);
+  }
+  return result;
+}
+
+async function verifyToken(request: Request) {
   const authHeader = request.headers.get('Authorization');
   console.log('=== AUTH VERIFICATION START ===');
   console.log('Auth header:', authHeader ? 'Present' : 'Missing');
@@ -52,618 +66,3938 @@ async function verifyAuth(request: Request) {
     console.log('ERROR: No access token found in Authorization header');
     return { user: null, error: 'No token provided' };
   }
-  
-  console.log('Access token length:', accessToken.length);
-  console.log('Access token (first 50 chars):', accessToken.substring(0, 50) + '...');
-  
+  
+  console.log('Access token length:', accessToken.length);
+  console.log('Access token (first 50 chars):', accessToken.substring(0, 50) + '...');
+  
+  try {
+    const user = await auth.getUser(accessToken);
+    
+    console.log('SUCCESS: Token verified for user:', user.id);
+    console.log('User email:', user.email);
+    console.log('=== AUTH VERIFICATION END ===');
+    return { user, error: null };
+  } catch (error: any) {
+    console.log('ERROR: Token verification failed');
+    console.log('Error message:', error.message);
+    console.log('=== AUTH VERIFICATION END ===');
+    return { user: null, error: 'Invalid or expired token: ' + error.message };
+  }
+}
+
+// Helper to load the signed-in user's record once per request. The first call stores it as
+// c.get('account'), null when signed out or without a profile, and later calls reuse it.
+async function getAccount(c: any) {
+  if (c.get('account') === undefined) {
+    const authResult = await verifyAuth(c);
+    c.set('account', authResult.error ? null : (await kv.get(`user:${authResult.user.id}`)) || null);
+  }
+  return c.get('account');
+}
+
+// Roles from least to most privileged, with the permissions each one grants
+const ROLES = ['user', 'moderator', 'admin'];
+type Permission = 'reports:moderate' | 'content:remove' | 'users:manage' | 'maintenance:run';
+
+// maintenance:run covers jobs that rewrite data across all users, such as recounting counters
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  user: [],
+  moderator: ['reports:moderate', 'content:remove'],
+  admin: ['reports:moderate', 'content:remove', 'users:manage', 'maintenance:run']
+};
+
+// Helper to read a comma-separated list of user ids from an environment variable
+function envUserIds(name: string) {
+  return (Deno.env.get(name) || '').split(',').map((id) => id.trim()).filter(Boolean);
+}
+
+// Accounts listed in ADMIN_USER_IDS are always admins, so a deployment can appoint its first admin.
+// MODERATOR_USER_IDS configured moderators before roles were stored and still makes its accounts
+// at least moderators; like the admin list, it is changed in the environment, not the admin page.
+function userRole(user: any) {
+  if (envUserIds('ADMIN_USER_IDS').includes(user.id)) {
+    return 'admin';
+  }
+  const role = ROLES.includes(user.role) ? user.role : 'user';
+  return role === 'user' && envUserIds('MODERATOR_USER_IDS').includes(user.id) ? 'moderator' : role;
+}
+
+function hasPermission(user: any, permission: Permission) {
+  return ROLE_PERMISSIONS[userRole(user)].includes(permission);
+}
+
+// Content may be removed by its owners (a comment's author and the post's author) or by
+// anyone with the content:remove permission
+function canRemoveContent(account: any, ownerIds: string[]) {
+  return ownerIds.includes(account.id) || hasPermission(account, 'content:remove');
+}
+
+// Middleware for routes that need a signed-in account, and optionally a permission.
+// The account's user record is passed on to the route as c.get('account').
+function requirePermission(permission?: Permission) {
+  return async (c: any, next: () => Promise<void>) => {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const account = await getAccount(c);
+    if (!account) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (permission && !hasPermission(account, permission)) {
+      return c.json({ error: 'You do not have permission to do this' }, 403);
+    }
+    
+    await next();
+  };
+}
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 50;
+
+// Helper to read `cursor` and `limit` query params for an index with the given prefix.
+// Returns null when the cursor is malformed or points outside that index.
+function parsePageQuery(c: any, prefix: string) {
+  const limitParam = parseInt(c.req.query('limit') || '', 10);
+  const limit = Number.isNaN(limitParam)
+    ? DEFAULT_PAGE_LIMIT
+    : Math.min(Math.max(limitParam, 1), MAX_PAGE_LIMIT);
+
+  const cursor = c.req.query('cursor');
+  if (!cursor) {
+    return { limit, before: undefined };
+  }
+
+  try {
+    const before = atob(cursor);
+    return before.startsWith(prefix) ? { limit, before } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper to read one page of an index, newest key first.
+// `nextCursor` is null once the last page has been reached.
+async function getIndexPage(prefix: string, page: { limit: number; before?: string }) {
+  const entries = await kv.getPageByPrefix(prefix, page.limit + 1, page.before);
+  const hasMore = entries.length > page.limit;
+  const pageEntries = entries.slice(0, page.limit);
+
+  return {
+    values: pageEntries.map((entry) => entry.value),
+    nextCursor: hasMore ? btoa(pageEntries[pageEntries.length - 1].key) : null
+  };
+}
+
+// Feed index keys sort chronologically, so a descending key scan returns newest posts first
+function feedKey(post: { id: string; createdAt: string }) {
+  return `feed:${post.createdAt}:${post.id}`;
+}
+
+// Per-author index with the same ordering as the feed, used for timelines
+function userPostKey(post: { id: string; userId: string; createdAt: string }) {
+  return `userpost:${post.userId}:${post.createdAt}:${post.id}`;
+}
+
+// Per-hashtag index with the same ordering as the feed
+function hashtagKey(tag: string, post: { id: string; createdAt: string }) {
+  return `hashtag:${tag}:${post.createdAt}:${post.id}`;
+}
+
+// Hashtags are letters, digits and underscores after a #, stored lowercase without the #.
+// A tag needs at least one letter, so "#1" in "nomor #1" is not a hashtag.
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]{1,50})/gu;
+
+function extractHashtags(content: string) {
+  const tags = [...content.matchAll(HASHTAG_PATTERN)]
+    .map((match) => match[2].toLowerCase())
+    .filter((tag) => /\p{L}/u.test(tag));
+  return [...new Set(tags)];
+}
+
+// Every index key that points at a post, each storing { postId }
+function postIndexKeys(post: { id: string; userId: string; createdAt: string; hashtags?: string[] }) {
+  return [feedKey(post), userPostKey(post), ...(post.hashtags || []).map((tag) => hashtagKey(tag, post))];
+}
+
+// Helper to run a one-off data migration, recorded under a migration: flag key
+async function runMigrationOnce(name: string, migrate: () => Promise<void>) {
+  const flagKey = `migration:${name}:done`;
+  const migrated = await kv.get(flagKey);
+  if (migrated) {
+    return;
+  }
+
+  await migrate();
+  await kv.set(flagKey, { done: true, timestamp: new Date().toISOString() });
+}
+
+// Helper to backfill the feed index for posts created before it existed
+function ensureFeedIndex() {
+  return runMigrationOnce('feed-index', async () => {
+    const posts = await kv.getByPrefix('post:');
+    if (posts.length > 0) {
+      await kv.mset(
+        posts.map((post: any) => feedKey(post)),
+        posts.map((post: any) => ({ postId: post.id }))
+      );
+    }
+  });
+}
+
+// Helper to backfill the per-author post index for posts created before it existed
+function ensureUserPostIndex() {
+  return runMigrationOnce('user-post-index', async () => {
+    const posts = await kv.getByPrefix('post:');
+    if (posts.length > 0) {
+      await kv.mset(
+        posts.map((post: any) => userPostKey(post)),
+        posts.map((post: any) => ({ postId: post.id }))
+      );
+    }
+  });
+}
+
+// Helper to extract hashtags from posts created before hashtags were indexed
+function ensureHashtagIndex() {
+  return runMigrationOnce('hashtag-index', async () => {
+    const posts = await kv.getByPrefix('post:');
+    const taggedPosts = posts
+      .map((post: any) => ({ ...post, hashtags: extractHashtags(post.content) }))
+      .filter((post: any) => post.hashtags.length > 0);
+
+    if (taggedPosts.length > 0) {
+      const tagKeys = taggedPosts.flatMap((post: any) => post.hashtags.map((tag: string) => hashtagKey(tag, post)));
+      await kv.mset(
+        [...taggedPosts.map((post: any) => `post:${post.id}`), ...tagKeys],
+        [...taggedPosts, ...tagKeys.map((key: string) => ({ postId: key.slice(key.lastIndexOf(':') + 1) }))]
+      );
+    }
+  });
+}
+
+// Trending tags are counted over recent posts, each use weighing half as much per half-life
+const TRENDING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const TRENDING_HALF_LIFE_MS = 24 * 60 * 60 * 1000;
+const TRENDING_SCAN_LIMIT = 500;
+const TRENDING_RESULTS_LIMIT = 10;
+
+// A follow is stored three times: follow:{follower}:{following} for direct lookups, plus
+// following:/follower: index keys ordered by time so both lists can be paginated newest first
+function followKeys(follow: { followerId: string; followingId: string; createdAt: string }) {
+  return [
+    `follow:${follow.followerId}:${follow.followingId}`,
+    `following:${follow.followerId}:${follow.createdAt}:${follow.followingId}`,
+    `follower:${follow.followingId}:${follow.createdAt}:${follow.followerId}`
+  ];
+}
+
+function followValues(follow: { followerId: string; followingId: string; createdAt: string }) {
+  return [follow, { userId: follow.followingId }, { userId: follow.followerId }];
+}
+
+// A block is stored under both accounts so either side can find it with a prefix scan
+function blockKeys(block: { blockerId: string; blockedId: string }) {
+  return [`block:${block.blockerId}:${block.blockedId}`, `blockedby:${block.blockedId}:${block.blockerId}`];
+}
+
+function muteKey(muterId: string, mutedId: string) {
+  return `mute:${muterId}:${mutedId}`;
+}
+
+// Helper to check whether either of two users blocked the other
+async function isBlockedBetween(userId: string, otherUserId: string) {
+  const blocks = await kv.mget([`block:${userId}:${otherUserId}`, `block:${otherUserId}:${userId}`]);
+  return blocks.length > 0;
+}
+
+// Helper to find the accounts whose content a user must not see: blocks in either direction,
+// plus the accounts they muted when `includeMuted` is set. Signed-out viewers see everything.
+async function getHiddenUserIds(userId: string | null, includeMuted = false) {
+  if (!userId) {
+    return new Set<string>();
+  }
+
+  const [blocking, blockedBy, muting] = await Promise.all([
+    kv.getByPrefix(`block:${userId}:`),
+    kv.getByPrefix(`blockedby:${userId}:`),
+    includeMuted ? kv.getByPrefix(`mute:${userId}:`) : Promise.resolve([])
+  ]);
+  return new Set<string>([
+    ...blocking.map((block: any) => block.blockedId),
+    ...blockedBy.map((block: any) => block.blockerId),
+    ...muting.map((mute: any) => mute.mutedId)
+  ]);
+}
+
+// Helper to drop enriched posts by hidden accounts, including reposts of their posts.
+// Quotes of their posts are kept but embed the quoted post as unavailable.
+function filterHiddenPosts(posts: any[], hiddenUserIds: Set<string>) {
+  if (hiddenUserIds.size === 0) {
+    return posts;
+  }
+
+  return posts
+    .filter((post) => !hiddenUserIds.has(post.userId) && !hiddenUserIds.has(post.repostedPost?.userId))
+    .map((post) => hiddenUserIds.has(post.quotedPost?.userId) ? { ...post, quotedPost: null } : post);
+}
+
+// Helper to mark the posts the viewer has liked, bookmarked or reposted, including embedded
+// reposted posts, so post cards don't check each post separately. Signed out viewers get false.
+async function attachViewerState(posts: any[], viewerId: string | null) {
+  const targets = [...posts, ...posts.map((post) => post.repostedPost).filter(Boolean)];
+  const postIds = [...new Set(targets.map((post) => post.id))] as string[];
+
+  let likedIds = new Set<string>();
+  let bookmarksByPostId = new Map<string, any>();
+  let repostedIds = new Set<string>();
+  if (viewerId && postIds.length > 0) {
+    const [likes, bookmarks, reposts] = await Promise.all([
+      kv.mget(postIds.map((id) => `like:${id}:${viewerId}`)),
+      kv.mget(postIds.map((id) => bookmarkPointerKey(id, viewerId))),
+      kv.mget(postIds.map((id) => repostKey(id, viewerId)))
+    ]);
+    likedIds = new Set(likes.map((like: any) => like.postId));
+    bookmarksByPostId = new Map(bookmarks.map((bookmark: any) => [bookmark.postId, bookmark]));
+    // Repost keys point at the repost, which records the original it reposts
+    const viewerReposts = await getPostsByIds(reposts.map((repost: any) => repost.postId));
+    repostedIds = new Set(viewerReposts.map((repost: any) => repost.repostOf));
+  }
+
+  const withState = (post: any) => ({
+    ...post,
+    liked: likedIds.has(post.id),
+    reposted: repostedIds.has(post.id),
+    bookmarked: bookmarksByPostId.has(post.id),
+    bookmarkCollectionId: bookmarksByPostId.get(post.id)?.collectionId || null
+  });
+  return posts.map((post) => ({
+    ...withState(post),
+    ...(post.repostedPost ? { repostedPost: withState(post.repostedPost) } : {})
+  }));
+}
+
+// Helper to read one page of posts from a post index, leaving out posts hidden from the viewer.
+// Keeps reading until the page is full or the index runs out, so hidden posts never leave a
+// short page while more posts remain. Posts are marked with the viewer's likes, bookmarks and reposts.
+async function getVisiblePostsPage(prefix: string, page: { limit: number; before?: string }, hiddenUserIds: Set<string>, viewerId: string | null) {
+  const posts: any[] = [];
+  let before = page.before;
+  while (true) {
+    const entries = await kv.getPageByPrefix(prefix, page.limit + 1, before);
+    const batch = entries.slice(0, page.limit);
+    const batchPosts = await enrichPosts(await getPostsByIds(batch.map((entry) => entry.value.postId)));
+    const visibleById = new Map(filterHiddenPosts(batchPosts, hiddenUserIds).map((post) => [post.id, post]));
+
+    for (const entry of batch) {
+      const post = visibleById.get(entry.value.postId);
+      if (post) {
+        posts.push(post);
+      }
+      if (posts.length === page.limit) {
+        const hasMore = entry !== entries[entries.length - 1];
+        return { posts: await attachViewerState(posts, viewerId), nextCursor: hasMore ? btoa(entry.key) : null };
+      }
+    }
+
+    if (entries.length <= page.limit) {
+      return { posts: await attachViewerState(posts, viewerId), nextCursor: null };
+    }
+    before = batch[batch.length - 1].key;
+  }
+}
+
+// Helper to identify the signed-in user on routes that also work signed out
+async function getViewerId(c: any) {
+  const authResult = await verifyAuth(c);
+  return authResult.error ? null : authResult.user.id;
+}
+
+// Helper to backfill the follower/following index for follows created before it existed
+function ensureFollowIndex() {
+  return runMigrationOnce('follow-index', async () => {
+    const follows = await kv.getByPrefix('follow:');
+    for (const follow of follows) {
+      await kv.mset(followKeys(follow), followValues(follow));
+    }
+  });
+}
+
+// Each reader's timeline is its own index of their posts and those of the accounts they follow,
+// filled in when a post is written so reading a timeline is a single index scan
+function timelineKey(readerId: string, post: { id: string; createdAt: string }) {
+  return `timeline:${readerId}:${post.createdAt}:${post.id}`;
+}
+
+const TIMELINE_SYNC_BATCH = 500;
+
+// Helper to find the timelines that show an author's posts: the author's own and their followers'
+async function getTimelineReaderIds(authorId: string) {
+  await ensureFollowIndex();
+  const followers = await kv.getByPrefix(`follower:${authorId}:`);
+  return [authorId, ...followers.map((follower: any) => follower.userId)];
+}
+
+// Helper to add a new post to every timeline that shows its author
+async function addToTimelines(post: { id: string; userId: string; createdAt: string }) {
+  const readerIds = await getTimelineReaderIds(post.userId);
+  await kv.mset(
+    readerIds.map((readerId) => timelineKey(readerId, post)),
+    readerIds.map(() => ({ postId: post.id }))
+  );
+}
+
+async function removeFromTimelines(post: { id: string; userId: string; createdAt: string }) {
+  const readerIds = await getTimelineReaderIds(post.userId);
+  await kv.mdel(readerIds.map((readerId) => timelineKey(readerId, post)));
+}
+
+// Helper to add or remove all of an author's posts in one reader's timeline after a follow
+// changes. Timeline keys share their position with the author's userpost: keys.
+async function syncTimelineAuthor(readerId: string, authorId: string, following: boolean) {
+  const prefix = `userpost:${authorId}:`;
+  let before: string | undefined;
+  while (true) {
+    const entries = await kv.getPageByPrefix(prefix, TIMELINE_SYNC_BATCH, before);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const keys = entries.map((entry) => `timeline:${readerId}:${entry.key.slice(prefix.length)}`);
+    if (following) {
+      await kv.mset(keys, entries.map((entry) => entry.value));
+    } else {
+      await kv.mdel(keys);
+    }
+
+    if (entries.length < TIMELINE_SYNC_BATCH) {
+      return;
+    }
+    before = entries[entries.length - 1].key;
+  }
+}
+
+// Helper to build the timelines of users who signed up before timelines were indexed
+function ensureTimelineIndex() {
+  return runMigrationOnce('timeline-index', async () => {
+    await ensureFollowIndex();
+    await ensureUserPostIndex();
+
+    const users = await kv.getByPrefix('user:');
+    for (const user of users) {
+      await syncTimelineAuthor(user.id, user.id, true);
+    }
+
+    const follows = await kv.getByPrefix('follow:');
+    for (const follow of follows) {
+      await syncTimelineAuthor(follow.followerId, follow.followingId, true);
+    }
+  });
+}
+
+// Profile fields anyone may see. Email and other account details stay private.
+function publicUser(user: any) {
+  return {
+    id: user.id,
+    name: user.name,
+    handle: user.handle,
+    bio: user.bio,
+    avatar: user.avatar,
+    createdAt: user.createdAt
+  };
+}
+
+// The signed-in user's own record, without storage internals such as avatarPath
+function accountUser(user: any) {
+  return {
+    ...publicUser(user),
+    email: user.email,
+    handleChangedAt: user.handleChangedAt || null,
+    dmPolicy: user.dmPolicy || 'everyone',
+    role: userRole(user),
+    suspendedAt: user.suspendedAt || null
+  };
+}
+
+// Account details only admins see when managing users
+function adminUser(user: any) {
+  return {
+    ...publicUser(user),
+    role: userRole(user),
+    suspendedAt: user.suspendedAt || null,
+    suspendedBy: user.suspendedBy || null
+  };
+}
+
+// Helper to load users by id, preserving the given order and skipping missing users
+async function getUsersByIds(userIds: string[]) {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const users = await kv.mget(userIds.map((id) => `user:${id}`));
+  const usersById = new Map(users.map((user: any) => [user.id, user]));
+  return userIds.map((id) => usersById.get(id)).filter(Boolean);
+}
+
+// Helper to load posts by id, preserving the given order and skipping deleted posts
+async function getPostsByIds(postIds: string[]) {
+  if (postIds.length === 0) {
+    return [];
+  }
+
+  const posts = await kv.mget(postIds.map((id) => `post:${id}`));
+  const postsById = new Map(posts.map((post: any) => [post.id, post]));
+  return postIds.map((id) => postsById.get(id)).filter(Boolean);
+}
+
+// Handles are unique lowercase usernames, reserved under handle:{handle} -> { userId }
+const HANDLE_PATTERN = /^[a-z0-9_]{3,20}$/;
+const HANDLE_CHANGE_COOLDOWN_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Handles that would be confusing as a username or collide with app paths
+const RESERVED_HANDLES = new Set([
+  'admin', 'administrator', 'moderator', 'support', 'crow', 'official',
+  'settings', 'search', 'posts', 'followers', 'following', 'me', 'null', 'undefined'
+]);
+
+function handleKey(handle: string) {
+  return `handle:${handle}`;
+}
+
+// Handles may be typed with a leading @ and in any case. Returns null for anything but a string.
+function normalizeHandle(value: unknown) {
+  return typeof value === 'string' ? value.trim().replace(/^@/, '').toLowerCase() : null;
+}
+
+// Helper to reserve a handle for a user. The reservation is a conditional insert, so when two
+// users race for the same handle only one of them gets it. Returns false if it is taken.
+async function claimHandle(handle: string, userId: string) {
+  if (await kv.setIfAbsent(handleKey(handle), { userId })) {
+    return true;
+  }
+  const owner = await kv.get(handleKey(handle));
+  return owner?.userId === userId;
+}
+
+// Helper to check a handle chosen by a user. Returns an error message, or null when it can be used.
+async function validateHandle(handle: string, userId?: string) {
+  if (!HANDLE_PATTERN.test(handle)) {
+    return 'Handle must be 3-20 characters of lowercase letters, numbers or underscores';
+  }
+
+  if (RESERVED_HANDLES.has(handle)) {
+    return 'This handle is not available';
+  }
+
+  const owner = await kv.get(handleKey(handle));
+  if (owner && owner.userId !== userId) {
+    return 'This handle is already taken';
+  }
+
+  return null;
+}
+
+// Helper to reserve a handle derived from the user's name, adding a number when it is taken.
+// Returns the reserved handle; the caller stores it on the user record.
+async function assignDefaultHandle(user: { id: string; name: string; email?: string }) {
+  const fromName = user.name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .slice(0, 15);
+  const base = fromName.length >= 3 ? fromName : 'user';
+
+  const candidates = [base, ...Array.from({ length: 98 }, (_, i) => `${base}${i + 2}`)];
+  for (const handle of candidates) {
+    if (!RESERVED_HANDLES.has(handle) && await claimHandle(handle, user.id)) {
+      return handle;
+    }
+  }
+
+  // Very common names fall back to a random suffix, claimed like any other handle
+  while (true) {
+    const handle = `${base}${crypto.randomUUID().replace(/-/g, '').slice(0, 4)}`;
+    if (await claimHandle(handle, user.id)) {
+      return handle;
+    }
+  }
+}
+
+// Helper to give every user created before handles existed a default handle
+function ensureUserHandles() {
+  return runMigrationOnce('user-handles', async () => {
+    const users = await kv.getByPrefix('user:');
+    for (const user of users) {
+      if (!user.handle) {
+        await kv.set(`user:${user.id}`, { ...user, handle: await assignDefaultHandle(user) });
+      }
+    }
+  });
+}
+
+// @mentions reference handles; the same boundary rules as hashtags keep emails from matching
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@.])@([A-Za-z0-9_]{3,20})(?![A-Za-z0-9_])/gu;
+
+// Helper to find the users mentioned in a post or comment. Unknown handles are ignored.
+async function resolveMentions(content: string) {
+  const handles = [...new Set([...content.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase()))];
+  if (handles.length === 0) {
+    return [];
+  }
+
+  await ensureUserHandles();
+  const owners = await Promise.all(handles.map((handle) => kv.get(handleKey(handle))));
+  return handles
+    .map((handle, i) => owners[i] ? { handle, userId: owners[i].userId } : null)
+    .filter(Boolean) as { handle: string; userId: string }[];
+}
+
+// Notifications are kept per recipient, newest activity first
+function notificationKey(notification: { id: string; userId: string; createdAt: string; updatedAt?: string }) {
+  return `notification:${notification.userId}:${notification.updatedAt || notification.createdAt}:${notification.id}`;
+}
+
+// Points at the unread notification that new events of the same group are merged into
+function notificationGroupKey(userId: string, groupKey: string) {
+  return `notificationgroup:${userId}:${groupKey}`;
+}
+
+function notificationStatsKey(userId: string) {
+  return `stats:notifications:${userId}`;
+}
+
+// Only the most recent actors are kept on a grouped notification; actorsCount has the total
+const MAX_NOTIFICATION_ACTORS = 10;
+
+// Helper to add an event to a recipient's notifications. While a notification with the same
+// group key is unread, new events are merged into it ("Budi dan 3 lainnya menyukai ...").
+// Events without a group key always get their own notification. Events caused by the
+// recipient themselves or by accounts they muted or blocked are ignored. Notices from
+// moderators, such as warnings, have no actor.
+async function addNotification(event: {
+  userId: string;
+  type: 'like' | 'comment' | 'reply' | 'follow' | 'mention' | 'warning';
+  groupKey?: string;
+  actorId?: string;
+  postId?: string;
+  commentId?: string;
+}) {
+  if (event.userId === event.actorId) {
+    return;
+  }
+
+  // Muted and blocked accounts never reach the recipient's notifications
+  const hiddenUserIds = await getHiddenUserIds(event.userId, true);
+  if (event.actorId && hiddenUserIds.has(event.actorId)) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const pointerKey = event.groupKey ? notificationGroupKey(event.userId, event.groupKey) : null;
+  const pointer = pointerKey ? await kv.get(pointerKey) : null;
+  const existing = pointer ? await kv.get(pointer.key) : null;
+
+  if (pointerKey && existing && !existing.readAt) {
+    const actorIds = existing.actorIds || [existing.actorId];
+    const isNewActor = !actorIds.includes(event.actorId);
+    const updated = {
+      ...existing,
+      actorIds: [event.actorId, ...actorIds.filter((id: string) => id !== event.actorId)].slice(0, MAX_NOTIFICATION_ACTORS),
+      actorsCount: (existing.actorsCount || actorIds.length) + (isNewActor ? 1 : 0),
+      commentId: event.commentId || existing.commentId || null,
+      updatedAt: now
+    };
+
+    // The index key holds the activity time, so moving the group to the top means re-keying it
+    await kv.del(pointer.key);
+    await kv.mset([notificationKey(updated), pointerKey], [updated, { key: notificationKey(updated) }]);
+    return;
+  }
+
+  const notification = {
+    id: crypto.randomUUID(),
+    userId: event.userId,
+    type: event.type,
+    groupKey: event.groupKey || null,
+    actorIds: event.actorId ? [event.actorId] : [],
+    actorsCount: event.actorId ? 1 : 0,
+    postId: event.postId || null,
+    commentId: event.commentId || null,
+    createdAt: now,
+    updatedAt: now,
+    readAt: null
+  };
+
+  if (pointerKey) {
+    await kv.mset([notificationKey(notification), pointerKey], [notification, { key: notificationKey(notification) }]);
+  } else {
+    await kv.set(notificationKey(notification), notification);
+  }
+  await adjustUnreadNotifications(event.userId, 1);
+}
+
+// Helper to recompute a user's unread notification count from their notifications
+async function recountUnreadNotifications(userId: string) {
+  const notifications = await kv.getByPrefix(`notification:${userId}:`);
+  const stats = {
+    userId,
+    unreadCount: notifications.filter((notification: any) => !notification.readAt).length
+  };
+  await kv.set(notificationStatsKey(userId), stats);
+  return stats;
+}
+
+// Helper to adjust the unread count after notifications were added or read.
+// Users without a stored count are recounted, which already includes that change.
+async function adjustUnreadNotifications(userId: string, delta: number) {
+  const stats = await kv.get(notificationStatsKey(userId));
+  if (!stats) {
+    return recountUnreadNotifications(userId);
+  }
+
+  const updatedStats = { ...stats, unreadCount: Math.max(0, stats.unreadCount + delta) };
+  await kv.set(notificationStatsKey(userId), updatedStats);
+  return updatedStats;
+}
+
+// Helper to notify users newly mentioned in a post or comment. Users who were already
+// mentioned before an edit, and the author mentioning themselves, are skipped.
+async function notifyMentions(
+  mentions: { userId: string }[],
+  previousMentions: { userId: string }[],
+  target: { actorId: string; postId: string; commentId?: string }
+) {
+  const alreadyMentioned = new Set(previousMentions.map((mention) => mention.userId));
+  for (const mention of mentions) {
+    if (!alreadyMentioned.has(mention.userId)) {
+      await addNotification({
+        userId: mention.userId,
+        type: 'mention',
+        actorId: target.actorId,
+        postId: target.postId,
+        commentId: target.commentId
+      });
+    }
+  }
+}
+
+// A one-to-one conversation has an id derived from both participants,
+// so starting a conversation with someone twice finds the existing one
+function conversationIdFor(userId: string, otherUserId: string) {
+  return [userId, otherUserId].sort().join('_');
+}
+
+// Messages are kept per conversation, newest first when paging
+function messageKey(message: { id: string; conversationId: string; createdAt: string }) {
+  return `message:${message.conversationId}:${message.createdAt}:${message.id}`;
+}
+
+// Each participant's inbox lists conversations by their latest message
+function inboxKey(userId: string, conversation: { id: string; updatedAt: string }) {
+  return `inbox:${userId}:${conversation.updatedAt}:${conversation.id}`;
+}
+
+// Per-participant read state of a conversation
+function conversationStateKey(userId: string, conversationId: string) {
+  return `conversationstate:${userId}:${conversationId}`;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+// Helper to check whether a user may message `recipient`, returning the reason when not.
+// Nobody can message across a block, and users who restricted direct messages only
+// accept them from people they follow.
+async function getMessageRestriction(senderId: string, recipient: any) {
+  if (await isBlockedBetween(senderId, recipient.id)) {
+    return 'You cannot interact with this user';
+  }
+  if (recipient.dmPolicy === 'following' && !(await kv.get(`follow:${recipient.id}:${senderId}`))) {
+    return 'This user only accepts messages from people they follow';
+  }
+  return null;
+}
+
+// Helper to load a conversation for one of its participants. Returns an error and
+// status instead when it does not exist or the user is not part of it.
+async function getConversationFor(conversationId: string, userId: string) {
+  const conversation = await kv.get(`conversation:${conversationId}`);
+  if (!conversation) {
+    return { error: 'Conversation not found', status: 404 as const };
+  }
+  if (!conversation.participantIds.includes(userId)) {
+    return { error: 'Not a participant in this conversation', status: 403 as const };
+  }
+  return { conversation };
+}
+
+// Like and comment counters are denormalized under this key so the feed
+// does not need a prefix scan per post just to count
+function postStatsKey(postId: string) {
+  return `stats:post:${postId}`;
+}
+
+// A user's plain repost of a post, storing { postId } of the repost. There is at most one per user.
+function repostKey(originalId: string, userId: string) {
+  return `repost:${originalId}:${userId}`;
+}
+
+// A quote of a post, storing { postId } of the quoting post
+function quoteKey(originalId: string, quotePostId: string) {
+  return `quote:${originalId}:${quotePostId}`;
+}
+
+// Helper to recompute a post's counters from the raw like/comment/repost/quote keys.
+// Deleted comments kept as placeholders for their replies are not counted.
+async function recountPostStats(postId: string) {
+  const likes = await kv.getByPrefix(`like:${postId}:`);
+  const comments = await kv.getByPrefix(`comment:${postId}:`);
+  const reposts = await kv.getByPrefix(`repost:${postId}:`);
+  const quotes = await kv.getByPrefix(`quote:${postId}:`);
+
+  const stats = {
+    postId,
+    likesCount: likes.length,
+    commentsCount: comments.filter((comment: any) => !comment.deletedAt).length,
+    repostsCount: reposts.length,
+    quotesCount: quotes.length
+  };
+  await kv.set(postStatsKey(postId), stats);
+  return stats;
+}
+
+type PostStatsDelta = { likesCount?: number; commentsCount?: number; repostsCount?: number; quotesCount?: number };
+
+// Helper to adjust a post's counters after a like/comment/repost/quote key was written or removed.
+// Posts without stored counters are recounted, which already includes that change.
+// Counters stored before reposts existed start from zero.
+async function adjustPostStats(postId: string, delta: PostStatsDelta) {
+  const stats = await kv.get(postStatsKey(postId));
+  let updatedStats;
+  if (!stats) {
+    updatedStats = await recountPostStats(postId);
+  } else {
+    updatedStats = {
+      ...stats,
+      likesCount: Math.max(0, stats.likesCount + (delta.likesCount || 0)),
+      commentsCount: Math.max(0, stats.commentsCount + (delta.commentsCount || 0)),
+      repostsCount: Math.max(0, (stats.repostsCount || 0) + (delta.repostsCount || 0)),
+      quotesCount: Math.max(0, (stats.quotesCount || 0) + (delta.quotesCount || 0))
+    };
+    await kv.set(postStatsKey(postId), updatedStats);
+  }
+
+  // Open post cards update their counters from this event
+  await realtime.publish('post.stats', {
+    postId,
+    likesCount: updatedStats.likesCount,
+    commentsCount: updatedStats.commentsCount,
+    repostsCount: updatedStats.repostsCount,
+    quotesCount: updatedStats.quotesCount
+  });
+  return updatedStats;
+}
+
+// Bookmarks are private, listed per user newest first
+function bookmarkKey(bookmark: { userId: string; postId: string; createdAt: string }) {
+  return `bookmark:${bookmark.userId}:${bookmark.createdAt}:${bookmark.postId}`;
+}
+
+// The same bookmarks listed per collection, each storing { postId }
+function collectionBookmarkKey(collectionId: string, bookmark: { userId: string; postId: string; createdAt: string }) {
+  return `collectionbookmark:${bookmark.userId}:${collectionId}:${bookmark.createdAt}:${bookmark.postId}`;
+}
+
+// Finds a user's bookmark of a post, and lets a deleted post find all of its bookmarks
+function bookmarkPointerKey(postId: string, userId: string) {
+  return `bookmarkpost:${postId}:${userId}`;
+}
+
+function collectionKey(userId: string, collectionId: string) {
+  return `collection:${userId}:${collectionId}`;
+}
+
+const MAX_COLLECTION_NAME_LENGTH = 50;
+
+// Every key of a bookmark, so it can be written or removed in one call
+function bookmarkKeys(bookmark: { userId: string; postId: string; createdAt: string; collectionId: string | null }) {
+  return [
+    bookmarkKey(bookmark),
+    bookmarkPointerKey(bookmark.postId, bookmark.userId),
+    ...(bookmark.collectionId ? [collectionBookmarkKey(bookmark.collectionId, bookmark)] : [])
+  ];
+}
+
+function bookmarkValues(bookmark: { userId: string; postId: string; createdAt: string; collectionId: string | null }) {
+  return [
+    bookmark,
+    bookmark,
+    ...(bookmark.collectionId ? [{ postId: bookmark.postId }] : [])
+  ];
+}
+
+// Helper to delete a post with everything attached to it. Plain reposts of the post are
+// deleted too, while quotes are kept and show the quoted post as deleted.
+async function deletePost(post: any) {
+  const postId = post.id;
+  await kv.mdel([`post:${postId}`, ...postIndexKeys(post), postStatsKey(postId)]);
+  await removeFromTimelines(post);
+  
+  // Delete all likes, comments, revisions, reposts, quotes and bookmarks for this post
+  const likes = await kv.getByPrefix(`like:${postId}:`);
+  const comments = await kv.getByPrefix(`comment:${postId}:`);
+  const revisions = await kv.getByPrefix(`revision:${postId}:`);
+  const reposts = await kv.getByPrefix(`repost:${postId}:`);
+  const quotes = await kv.getByPrefix(`quote:${postId}:`);
+  const bookmarks = await kv.getByPrefix(`bookmarkpost:${postId}:`);
+  
+  const attachments = await kv.mget((post.media || []).map((m: any) => `media:${m.id}`));
+  
+  const keysToDelete = [
+    ...likes.map((l: any) => `like:${postId}:${l.userId}`),
+    ...comments.map((c: any) => `comment:${postId}:${c.id}`),
+    ...revisions.map((r: any) => revisionKey(r)),
+    ...reposts.map((r: any) => repostKey(postId, r.userId)),
+    ...quotes.map((q: any) => quoteKey(postId, q.postId)),
+    ...bookmarks.flatMap(bookmarkKeys),
+    ...attachments.map((m: any) => `media:${m.id}`)
+  ];
+  
+  if (keysToDelete.length > 0) {
+    await kv.mdel(keysToDelete);
+  }
+  
+  for (const repostPost of await getPostsByIds(reposts.map((r: any) => r.postId))) {
+    await deletePost(repostPost);
+  }
+  
+  // Update the counters of the post this one reposted or quoted, unless it is gone too
+  const originalId = post.repostOf || post.quoteOf;
+  if (originalId) {
+    await kv.del(post.repostOf ? repostKey(originalId, post.userId) : quoteKey(originalId, postId));
+    if (await kv.get(`post:${originalId}`)) {
+      await adjustPostStats(originalId, post.repostOf ? { repostsCount: -1 } : { quotesCount: -1 });
+    }
+  }
+  
+  // The post is already gone, so a storage failure only leaves orphaned files behind
+  try {
+    await storage.remove(attachments.flatMap((m: any) => [m.path, m.thumbnailPath]));
+  } catch (error) {
+    console.log('Delete post media error:', error);
+  }
+}
+
+const REPORT_TARGET_TYPES = ['post', 'comment', 'user'];
+const REPORT_REASONS = ['spam', 'harassment', 'hate', 'violence', 'nudity', 'misinformation', 'other'];
+const MODERATION_ACTIONS = ['dismiss', 'remove', 'warn', 'suspend'];
+const MAX_REPORT_DETAILS_LENGTH = 500;
+
+// Repeat reports of the same content are merged into one open report
+function reportKey(reportId: string) {
+  return `report:${reportId}`;
+}
+
+// Points from reported content to its open report, storing { reportId }
+function reportTargetKey(targetType: string, targetId: string) {
+  return `reporttarget:${targetType}:${targetId}`;
+}
+
+// The moderation queue, one list per status, each entry storing { reportId }.
+// Open reports are ordered by when they were first filed, resolved ones by when they were resolved.
+function reportQueueKey(report: { id: string; status: string; createdAt: string; resolvedAt?: string | null }) {
+  const sortTime = report.status === 'open' ? report.createdAt : report.resolvedAt;
+  return `reportqueue:${report.status}:${sortTime}:${report.id}`;
+}
+
+// Every action a moderator took on a report, in order
+function moderationActionKey(action: { reportId: string; createdAt: string; id: string }) {
+  return `moderationaction:${action.reportId}:${action.createdAt}:${action.id}`;
+}
+
+// Helper to load the reported content and its author. Deleted content resolves to null.
+async function getReportTarget(targetType: string, targetId: string, postId?: string) {
+  if (targetType === 'post') {
+    const post = await kv.get(`post:${targetId}`);
+    return post ? { authorId: post.userId, postId: post.id } : null;
+  }
+  if (targetType === 'comment') {
+    const comment = postId ? await kv.get(`comment:${postId}:${targetId}`) : null;
+    return comment && !comment.deletedAt ? { authorId: comment.userId, postId: comment.postId } : null;
+  }
+  const user = await kv.get(`user:${targetId}`);
+  return user ? { authorId: user.id, postId: null } : null;
+}
+
+// Helper to attach a preview of the reported content, its author and the action history to reports
+async function enrichReports(reports: any[]) {
+  const postIds = reports.filter((report) => report.targetType === 'post').map((report) => report.targetId);
+  const commentKeys = reports
+    .filter((report) => report.targetType === 'comment')
+    .map((report) => `comment:${report.postId}:${report.targetId}`);
+  const [posts, comments, actionLists] = await Promise.all([
+    getPostsByIds(postIds),
+    kv.mget(commentKeys),
+    Promise.all(reports.map((report) => kv.getByPrefix(`moderationaction:${report.id}:`)))
+  ]);
+  const postsById = new Map(posts.map((post: any) => [post.id, post]));
+  const commentsById = new Map(comments.map((comment: any) => [comment.id, comment]));
+  
+  const userIds = new Set<string>();
+  reports.forEach((report) => userIds.add(report.authorId));
+  actionLists.flat().forEach((action: any) => userIds.add(action.moderatorId));
+  const users = await getUsersByIds([...userIds]);
+  const usersById = new Map(users.map((user: any) => [user.id, user]));
+  const summary = (user: any) => user ? { id: user.id, name: user.name, handle: user.handle, avatar: user.avatar } : null;
+  
+  return reports.map((report, index) => {
+    const author = usersById.get(report.authorId);
+    let target: any = null;
+    if (report.targetType === 'post') {
+      const post = postsById.get(report.targetId);
+      target = post ? { id: post.id, content: post.content, media: post.media || [] } : null;
+    } else if (report.targetType === 'comment') {
+      const comment = commentsById.get(report.targetId);
+      target = comment && !comment.deletedAt ? { id: comment.id, postId: comment.postId, content: comment.content } : null;
+    } else if (author) {
+      target = { id: author.id, bio: author.bio, avatar: author.avatar };
+    }
+    
+    return {
+      ...report,
+      target,
+      author: author ? { ...summary(author), suspendedAt: author.suspendedAt || null } : null,
+      actions: actionLists[index]
+        .sort((a: any, b: any) => a.createdAt < b.createdAt ? -1 : 1)
+        .map((action: any) => ({ ...action, moderator: summary(usersById.get(action.moderatorId)) }))
+    };
+  });
+}
+
+// Helper to carry out a moderation action on the reported content or its author
+async function applyModerationAction(report: any, action: string, moderatorId: string) {
+  if (action === 'remove') {
+    if (report.targetType === 'post') {
+      const post = await kv.get(`post:${report.targetId}`);
+      if (post) {
+        await deletePost(post);
+      }
+    } else if (report.targetType === 'comment') {
+      const comment = await kv.get(`comment:${report.postId}:${report.targetId}`);
+      if (comment && !comment.deletedAt) {
+        await deleteComment(comment);
+      }
+    } else {
+      // A profile's content is its bio and photo; name and handle stay so the account remains findable
+      const user = await kv.get(`user:${report.targetId}`);
+      if (user) {
+        await kv.set(`user:${user.id}`, { ...user, bio: '', avatar: '', avatarPath: null });
+        if (user.avatarPath) {
+          try {
+            await storage.remove([user.avatarPath]);
+          } catch (error) {
+            console.log('Remove reported avatar error:', error);
+          }
+        }
+      }
+    }
+  } else if (action === 'warn') {
+    await addNotification({
+      userId: report.authorId,
+      type: 'warning',
+      postId: report.targetType === 'user' ? undefined : report.postId,
+      commentId: report.targetType === 'comment' ? report.targetId : undefined
+    });
+  } else if (action === 'suspend') {
+    const author = await kv.get(`user:${report.authorId}`);
+    if (author && !author.suspendedAt) {
+      await kv.set(`user:${author.id}`, { ...author, suspendedAt: new Date().toISOString(), suspendedBy: moderatorId });
+    }
+  }
+}
+
+const DEFAULT_COMMENT_DEPTH = 3;
+const MAX_COMMENT_DEPTH = 5;
+const INLINE_REPLIES_LIMIT = 3;
+
+// Comments are ordered oldest first; this key breaks ties between equal timestamps
+function commentSortKey(comment: { id: string; createdAt: string }) {
+  return `${comment.createdAt}:${comment.id}`;
+}
+
+// Helper to assemble one page of a comment thread from a post's flat comment list.
+// Each comment carries up to INLINE_REPLIES_LIMIT replies, nested until `depth` runs out;
+// `repliesCursor` lets the client fetch the replies that were left out.
+function assembleCommentThread(
+  childrenByParent: Map<string | null, any[]>,
+  usersById: Map<string, any>,
+  parentId: string | null,
+  page: { limit: number; after?: string },
+  depth: number
+): { comments: any[]; nextCursor: string | null } {
+  const children = childrenByParent.get(parentId) || [];
+  const remaining = page.after
+    ? children.filter((comment) => commentSortKey(comment) > page.after!)
+    : children;
+  const pageComments = remaining.slice(0, page.limit);
+  const hasMore = remaining.length > page.limit;
+
+  const comments = pageComments.map((comment) => {
+    const user = usersById.get(comment.userId);
+    const repliesCount = (childrenByParent.get(comment.id) || []).length;
+    const replies = depth > 1
+      ? assembleCommentThread(childrenByParent, usersById, comment.id, { limit: INLINE_REPLIES_LIMIT }, depth - 1)
+      : { comments: [], nextCursor: null };
+
+    return {
+      ...comment,
+      user: user ? { id: user.id, name: user.name, handle: user.handle, avatar: user.avatar } : null,
+      replies: replies.comments,
+      repliesCount,
+      repliesCursor: replies.nextCursor
+    };
+  });
+
+  return {
+    comments,
+    nextCursor: hasMore ? btoa(commentSortKey(pageComments[pageComments.length - 1])) : null
+  };
+}
+
+// Helper to delete a comment. A comment with replies is kept as a placeholder so the
+// thread below it stays in place. Returns the ids of the comments removed outright.
+async function deleteComment(comment: any) {
+  const comments = await kv.getByPrefix(`comment:${comment.postId}:`);
+  const hasReplies = comments.some((other: any) => other.parentCommentId === comment.id);
+  const removedIds: string[] = [];
+  
+  if (hasReplies) {
+    await kv.set(`comment:${comment.postId}:${comment.id}`, {
+      ...comment,
+      content: '',
+      mentions: [],
+      deletedAt: new Date().toISOString()
+    });
+  } else {
+    // Placeholders above this comment that are left without replies go too
+    const commentsById = new Map(comments.map((other: any) => [other.id, other]));
+    removedIds.push(comment.id);
+    let parent = commentsById.get(comment.parentCommentId);
+    while (
+      parent?.deletedAt
+      && !comments.some((other: any) => other.parentCommentId === parent.id && !removedIds.includes(other.id))
+    ) {
+      removedIds.push(parent.id);
+      parent = commentsById.get(parent.parentCommentId);
+    }
+    await kv.mdel(removedIds.map((id) => `comment:${comment.postId}:${id}`));
+  }
+  
+  // Placeholders were already uncounted when their comment was deleted
+  const stats = await adjustPostStats(comment.postId, { commentsCount: -1 });
+  return { placeholder: hasReplies, removedIds, stats };
+}
+
+// Posts can only be edited for a while after they are published
+const POST_EDIT_WINDOW_MS = 60 * 60 * 1000;
+
+// Earlier versions of an edited post, ordered by when they were replaced
+function revisionKey(revision: { postId: string; replacedAt: string }) {
+  return `revision:${revision.postId}:${revision.replacedAt}`;
+}
+
+const MAX_MEDIA_PER_POST = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const THUMBNAIL_SIZE = 400;
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+const AVATAR_SIZE = 512;
+
+// Accepted upload types and the file extension they are stored with
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif'
+};
+
+// Decoding needs 4 bytes per pixel, so a small file with huge dimensions could exhaust memory
+const MAX_IMAGE_PIXELS = 4096 * 4096;
+
+// Reads an image's pixel dimensions from its header without decoding it.
+// Returns null when the header does not match the declared type.
+function readImageSize(data: Uint8Array, contentType: string) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (contentType === 'image/png') {
+    // The IHDR chunk always follows the 8 byte signature
+    if (data.length < 24 || view.getUint32(0) !== 0x89504e47) {
+      return null;
+    }
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (contentType === 'image/gif') {
+    if (data.length < 10 || String.fromCharCode(...data.subarray(0, 4)) !== 'GIF8') {
+      return null;
+    }
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker, which holds the dimensions
+  if (data.length < 4 || view.getUint16(0) !== 0xffd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+// Reads the "file" field of a multipart upload and checks that it really is a supported image
+async function readImageUpload(c: any, maxBytes: number) {
+  // Reject obviously oversized bodies before buffering them
+  const contentLength = Number(c.req.header('content-length') || 0);
+  if (contentLength > maxBytes + 64 * 1024) {
+    return { error: `Image must be ${maxBytes / (1024 * 1024)}MB or smaller`, status: 413 };
+  }
+
+  const body = await c.req.parseBody();
+  const file = body['file'];
+
+  if (!(file instanceof File)) {
+    return { error: 'Image file is required', status: 400 };
+  }
+
+  if (!IMAGE_EXTENSIONS[file.type]) {
+    return { error: 'Only JPEG, PNG and GIF images are supported', status: 415 };
+  }
+
+  if (file.size > maxBytes) {
+    return { error: `Image must be ${maxBytes / (1024 * 1024)}MB or smaller`, status: 413 };
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const size = readImageSize(data, file.type);
+  if (!size) {
+    return { error: 'File is not a valid image', status: 415 };
+  }
+  if (size.width * size.height > MAX_IMAGE_PIXELS) {
+    return { error: `Image must be ${Math.floor(MAX_IMAGE_PIXELS / 1_000_000)} megapixels or smaller`, status: 413 };
+  }
+
+  let image;
+  try {
+    // Only the first frame of a GIF is needed for sizing and thumbnails
+    image = await decode(data, true);
+  } catch {
+    image = null;
+  }
+
+  if (!(image instanceof Image)) {
+    return { error: 'File is not a valid image', status: 415 };
+  }
+
+  return { file, data, image };
+}
+
+// Shrinks an image so its longest side fits in `size` pixels, keeping the aspect ratio
+function fitImage(image: Image, size: number) {
+  if (image.width <= size && image.height <= size) {
+    return image;
+  }
+  return image.width >= image.height
+    ? image.resize(size, Image.RESIZE_AUTO)
+    : image.resize(Image.RESIZE_AUTO, size);
+}
+
+// Uploads not attached to a post yet, oldest first, storing { mediaId }. Uploads still
+// pending after PENDING_MEDIA_TTL_MS were abandoned in the composer and are deleted.
+function pendingMediaKey(media: { id: string; createdAt: string }) {
+  return `pendingmedia:${media.createdAt}:${media.id}`;
+}
+
+const PENDING_MEDIA_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_MEDIA_SWEEP_LIMIT = 20;
+
+// Helper to index uploads that were left unattached before pending uploads were tracked
+function ensurePendingMediaIndex() {
+  return runMigrationOnce('pending-media-index', async () => {
+    const pending = (await kv.getByPrefix('media:')).filter((media: any) => !media.postId);
+    if (pending.length > 0) {
+      await kv.mset(pending.map(pendingMediaKey), pending.map((media: any) => ({ mediaId: media.id })));
+    }
+  });
+}
+
+// Helper to delete a batch of abandoned uploads with their files
+async function sweepPendingMedia() {
+  await ensurePendingMediaIndex();
+
+  const cutoff = new Date(Date.now() - PENDING_MEDIA_TTL_MS).toISOString();
+  const entries = await kv.getPageByPrefix('pendingmedia:', PENDING_MEDIA_SWEEP_LIMIT, `pendingmedia:${cutoff}`);
+  if (entries.length === 0) {
+    return;
+  }
+
+  // Uploads attached in the meantime only lose their pending entry
+  const uploads = await kv.mget(entries.map((entry) => `media:${entry.value.mediaId}`));
+  const abandoned = uploads.filter((media: any) => !media.postId);
+  await kv.mdel([...entries.map((entry) => entry.key), ...abandoned.map((media: any) => `media:${media.id}`)]);
+
+  try {
+    await storage.remove(abandoned.flatMap((media: any) => [media.path, media.thumbnailPath]));
+  } catch (error) {
+    console.log('Sweep pending media error:', error);
+  }
+}
+
+// Media fields that are safe to embed in posts
+function publicMedia(media: any) {
+  return {
+    id: media.id,
+    url: media.url,
+    thumbnailUrl: media.thumbnailUrl,
+    width: media.width,
+    height: media.height
+  };
+}
+
+// Helper to attach author info and like/comment counts to posts
+async function enrichPosts(posts: any[], embedReferences = true) {
+  if (posts.length === 0) {
+    return [];
+  }
+
+  const users = await getUsersByIds([...new Set(posts.map((post: any) => post.userId))]);
+  const usersById = new Map(users.map((user: any) => [user.id, user]));
+
+  const stats = await kv.mget(posts.map((post: any) => postStatsKey(post.id)));
+  const statsByPostId = new Map(stats.map((s: any) => [s.postId, s]));
+
+  // Reposts and quotes embed the post they refer to, one level deep.
+  // A deleted original is embedded as null so the client can show a tombstone.
+  const referencedIds = embedReferences
+    ? [...new Set(posts.map((post: any) => post.repostOf || post.quoteOf).filter(Boolean))] as string[]
+    : [];
+  const referencedPosts = await enrichPosts(await getPostsByIds(referencedIds), false);
+  const referencedById = new Map(referencedPosts.map((post: any) => [post.id, post]));
+
+  return Promise.all(
+    posts.map(async (post: any) => {
+      const user = usersById.get(post.userId);
+      const postStats = statsByPostId.get(post.id) || await recountPostStats(post.id);
+
+      return {
+        ...post,
+        user: user ? { id: user.id, name: user.name, handle: user.handle, avatar: user.avatar } : null,
+        likesCount: postStats.likesCount,
+        commentsCount: postStats.commentsCount,
+        repostsCount: postStats.repostsCount || 0,
+        quotesCount: postStats.quotesCount || 0,
+        ...(embedReferences && post.repostOf ? { repostedPost: referencedById.get(post.repostOf) || null } : {}),
+        ...(embedReferences && post.quoteOf ? { quotedPost: referencedById.get(post.quoteOf) || null } : {})
+      };
+    })
+  );
+}
+
+// Health check endpoint
+app.get("/make-server-b017b546/health", (c) => {
+  return c.json({ status: "ok" });
+});
+
+// ============ AUTH ROUTES ============
+
+// Sign up
+app.post("/make-server-b017b546/auth/signup", async (c) => {
+  try {
+    const { email, password, name, handle: requestedHandle } = await c.req.json();
+    
+    const handle = normalizeHandle(requestedHandle);
+    if (!email || !password || !name || !handle) {
+      return c.json({ error: 'Email, password, name and handle are required' }, 400);
+    }
+    
+    const handleError = await validateHandle(handle);
+    if (handleError) {
+      return c.json({ error: handleError }, 400);
+    }
+    
+    // Create the account with the configured auth backend
+    let user;
+    try {
+      user = await auth.createUser(email, password, { name });
+    } catch (error) {
+      console.log('Sign up error:', error);
+      return c.json({ error: error.message }, 400);
+    }
+    
+    // Someone may have taken the handle while the account was being created
+    const userId = user.id;
+    if (!(await claimHandle(handle, userId))) {
+      await auth.deleteUser(userId);
+      return c.json({ error: 'This handle is already taken' }, 400);
+    }
+    
+    // Store user profile in KV
+    await kv.set(`user:${userId}`, {
+      id: userId,
+      email,
+      name,
+      handle,
+      handleChangedAt: null,
+      bio: '',
+      avatar: '',
+      createdAt: new Date().toISOString()
+    });
+    
+    return c.json({ user });
+  } catch (error) {
+    console.log('Sign up error:', error);
+    return c.json({ error: 'Sign up failed: ' + error.message }, 500);
+  }
+});
+
+// Log in with email and password. The browser signs in with Supabase directly, so this is how
+// clients get an access token when AUTH_BACKEND is local.
+app.post("/make-server-b017b546/auth/login", async (c) => {
+  try {
+    const { email, password } = await c.req.json();
+    
+    if (!email || !password) {
+      return c.json({ error: 'Email and password are required' }, 400);
+    }
+    
+    try {
+      const { accessToken, user } = await auth.signIn(email, password);
+      return c.json({ accessToken, user });
+    } catch (error) {
+      console.log('Login error:', error);
+      return c.json({ error: error.message }, 401);
+    }
+  } catch (error) {
+    console.log('Login error:', error);
+    return c.json({ error: 'Login failed: ' + error.message }, 500);
+  }
+});
+
+// ============ USER ROUTES ============
+
+// Get the signed-in user's own account, including private fields
+app.get("/make-server-b017b546/me", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    await ensureUserHandles();
+    const user = await kv.get(`user:${authResult.user.id}`);
+    
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    return c.json({ user: accountUser(user) });
+  } catch (error) {
+    console.log('Get account error:', error);
+    return c.json({ error: 'Failed to get account: ' + error.message }, 500);
+  }
+});
+
+// Get user profile
+app.get("/make-server-b017b546/users/:id", async (c) => {
+  try {
+    const userId = c.req.param('id');
+    await ensureUserHandles();
+    const user = await kv.get(`user:${userId}`);
+    
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    // Get follow stats
+    await ensureFollowIndex();
+    const followers = await kv.getByPrefix(`follower:${userId}:`);
+    const following = await kv.getByPrefix(`following:${userId}:`);
+    
+    return c.json({
+      user: publicUser(user),
+      stats: {
+        followers: followers.length,
+        following: following.length
+      }
+    });
+  } catch (error) {
+    console.log('Get user profile error:', error);
+    return c.json({ error: 'Failed to get user profile: ' + error.message }, 500);
+  }
+});
+
+// Update user profile
+app.put("/make-server-b017b546/users/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const userId = c.req.param('id');
+    if (authResult.user.id !== userId) {
+      return c.json({ error: 'Unauthorized to update this profile' }, 403);
+    }
+    
+    const { name, bio, avatar, handle: requestedHandle, dmPolicy } = await c.req.json();
+    const existingUser = await kv.get(`user:${userId}`);
+    
+    if (!existingUser) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    const handle = requestedHandle !== undefined ? normalizeHandle(requestedHandle) : existingUser.handle;
+    if (handle === null) {
+      return c.json({ error: 'Handle must be a string' }, 400);
+    }
+    const handleChanged = handle !== existingUser.handle;
+    
+    if (handleChanged) {
+      const lastChange = existingUser.handleChangedAt ? new Date(existingUser.handleChangedAt).getTime() : 0;
+      if (Date.now() - lastChange < HANDLE_CHANGE_COOLDOWN_MS) {
+        const nextChange = new Date(lastChange + HANDLE_CHANGE_COOLDOWN_MS).toISOString();
+        return c.json({ error: 'Handle can only be changed once every 30 days', nextChangeAt: nextChange }, 400);
+      }
+      
+      const handleError = await validateHandle(handle, userId);
+      if (handleError) {
+        return c.json({ error: handleError }, 400);
+      }
+    }
+    
+    if (dmPolicy !== undefined && dmPolicy !== 'everyone' && dmPolicy !== 'following') {
+      return c.json({ error: 'Invalid direct message setting' }, 400);
+    }
+    
+    // Avatars are set through the upload route; here they can only be kept or removed
+    if (avatar !== undefined && avatar !== '' && avatar !== existingUser.avatar) {
+      return c.json({ error: 'Avatar must be uploaded as an image' }, 400);
+    }
+    
+    const removeAvatar = avatar === '' && !!existingUser.avatar;
+    const updatedUser = {
+      ...existingUser,
+      name: name || existingUser.name,
+      bio: bio !== undefined ? bio : existingUser.bio,
+      avatar: removeAvatar ? '' : existingUser.avatar,
+      avatarPath: removeAvatar ? null : existingUser.avatarPath || null,
+      handle,
+      handleChangedAt: handleChanged ? new Date().toISOString() : existingUser.handleChangedAt || null,
+      dmPolicy: dmPolicy || existingUser.dmPolicy || 'everyone',
+    };
+    
+    if (handleChanged) {
+      if (!(await claimHandle(handle, userId))) {
+        return c.json({ error: 'This handle is already taken' }, 400);
+      }
+      
+      // Release the old handle so someone else can take it
+      await kv.set(`user:${userId}`, updatedUser);
+      if (existingUser.handle) {
+        await kv.del(handleKey(existingUser.handle));
+      }
+    } else {
+      await kv.set(`user:${userId}`, updatedUser);
+    }
+    
+    if (removeAvatar && existingUser.avatarPath) {
+      try {
+        await storage.remove([existingUser.avatarPath]);
+      } catch (error) {
+        console.log('Remove avatar file error:', error);
+      }
+    }
+    
+    return c.json({ user: accountUser(updatedUser) });
+  } catch (error) {
+    console.log('Update user profile error:', error);
+    return c.json({ error: 'Failed to update profile: ' + error.message }, 500);
+  }
+});
+
+// Upload a new avatar. The image is cropped to a square and resized before it is stored.
+app.post("/make-server-b017b546/users/:id/avatar", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const userId = c.req.param('id');
+    if (authResult.user.id !== userId) {
+      return c.json({ error: 'Unauthorized to update this profile' }, 403);
+    }
+    
+    const existingUser = await kv.get(`user:${userId}`);
+    if (!existingUser) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    const upload = await readImageUpload(c, MAX_AVATAR_BYTES);
+    if (upload.error) {
+      return c.json({ error: upload.error }, upload.status);
+    }
+    
+    // A new file name per upload, so browsers and CDNs never serve a stale avatar
+    const avatarPath = `avatars/${userId}/${crypto.randomUUID()}.jpg`;
+    const avatarData = await upload.image.cover(AVATAR_SIZE, AVATAR_SIZE).encodeJPEG(85);
+    await storage.upload(avatarPath, avatarData, 'image/jpeg');
+    
+    const updatedUser = {
+      ...existingUser,
+      avatar: await storage.publicUrl(avatarPath),
+      avatarPath
+    };
+    
+    await kv.set(`user:${userId}`, updatedUser);
+    
+    if (existingUser.avatarPath) {
+      try {
+        await storage.remove([existingUser.avatarPath]);
+      } catch (error) {
+        console.log('Remove old avatar file error:', error);
+      }
+    }
+    
+    return c.json({ user: accountUser(updatedUser) });
+  } catch (error) {
+    console.log('Upload avatar error:', error);
+    return c.json({ error: 'Failed to upload avatar: ' + error.message }, 500);
+  }
+});
+
+// Search users
+app.get("/make-server-b017b546/users/search/query", async (c) => {
+  try {
+    const query = c.req.query('q')?.toLowerCase() || '';
+    
+    if (!query) {
+      return c.json({ users: [] });
+    }
+    
+    await ensureUserHandles();
+    
+    const allUsers = await kv.getByPrefix('user:');
+    const handleQuery = query.replace(/^@/, '');
+    // Emails are not searchable, otherwise anyone could check whether an address has an account
+    const filteredUsers = allUsers.filter((user: any) => 
+      user.name.toLowerCase().includes(query) || 
+      (!!handleQuery && !!user.handle?.includes(handleQuery))
+    );
+    
+    return c.json({ users: filteredUsers.slice(0, 20).map(publicUser) });
+  } catch (error) {
+    console.log('Search users error:', error);
+    return c.json({ error: 'Failed to search users: ' + error.message }, 500);
+  }
+});
+
+// Look up a user by handle. Registered before the /users/:id/* routes so a handle never reads as an id.
+app.get("/make-server-b017b546/users/by-handle/:handle", async (c) => {
+  try {
+    const handle = c.req.param('handle').replace(/^@/, '').toLowerCase();
+    
+    await ensureUserHandles();
+    
+    const owner = await kv.get(handleKey(handle));
+    const user = owner ? await kv.get(`user:${owner.userId}`) : null;
+    
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    return c.json({ user: publicUser(user) });
+  } catch (error) {
+    console.log('Get user by handle error:', error);
+    return c.json({ error: 'Failed to get user: ' + error.message }, 500);
+  }
+});
+
+// Get a user's posts, newest first
+app.get("/make-server-b017b546/users/:id/posts", async (c) => {
+  try {
+    const userId = c.req.param('id');
+    const page = parsePageQuery(c, `userpost:${userId}:`);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    await ensureUserPostIndex();
+    
+    // Blocked accounts see an empty profile; muted accounts stay visible on their own profile
+    const viewerId = await getViewerId(c);
+    const hiddenUserIds = await getHiddenUserIds(viewerId);
+    if (hiddenUserIds.has(userId)) {
+      return c.json({ posts: [], nextCursor: null });
+    }
+    
+    const { posts, nextCursor } = await getVisiblePostsPage(`userpost:${userId}:`, page, hiddenUserIds, viewerId);
+    
+    return c.json({ posts, nextCursor });
+  } catch (error) {
+    console.log('Get user posts error:', error);
+    return c.json({ error: 'Failed to get user posts: ' + error.message }, 500);
+  }
+});
+
+// Get users who follow a user, newest follow first
+app.get("/make-server-b017b546/users/:id/followers", async (c) => {
+  try {
+    const userId = c.req.param('id');
+    const page = parsePageQuery(c, `follower:${userId}:`);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    await ensureFollowIndex();
+    
+    const { values, nextCursor } = await getIndexPage(`follower:${userId}:`, page);
+    const users = await getUsersByIds(values.map((entry: any) => entry.userId));
+    
+    return c.json({
+      users: users.map((user: any) => ({ id: user.id, name: user.name, handle: user.handle, avatar: user.avatar, bio: user.bio })),
+      nextCursor
+    });
+  } catch (error) {
+    console.log('Get followers error:', error);
+    return c.json({ error: 'Failed to get followers: ' + error.message }, 500);
+  }
+});
+
+// Get users a user follows, newest follow first
+app.get("/make-server-b017b546/users/:id/following", async (c) => {
+  try {
+    const userId = c.req.param('id');
+    const page = parsePageQuery(c, `following:${userId}:`);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    await ensureFollowIndex();
+    
+    const { values, nextCursor } = await getIndexPage(`following:${userId}:`, page);
+    const users = await getUsersByIds(values.map((entry: any) => entry.userId));
+    
+    return c.json({
+      users: users.map((user: any) => ({ id: user.id, name: user.name, handle: user.handle, avatar: user.avatar, bio: user.bio })),
+      nextCursor
+    });
+  } catch (error) {
+    console.log('Get following error:', error);
+    return c.json({ error: 'Failed to get following: ' + error.message }, 500);
+  }
+});
+
+// ============ POST ROUTES ============
+
+// Get posts, newest first, one page at a time
+app.get("/make-server-b017b546/posts", async (c) => {
+  try {
+    const page = parsePageQuery(c, 'feed:');
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+
+    await ensureFeedIndex();
+
+    const viewerId = await getViewerId(c);
+    const hiddenUserIds = await getHiddenUserIds(viewerId, true);
+
+    // Get user info and likes/comments count for each post
+    const { posts, nextCursor } = await getVisiblePostsPage('feed:', page, hiddenUserIds, viewerId);
+
+    return c.json({ posts, nextCursor });
+  } catch (error) {
+    console.log('Get posts error:', error);
+    return c.json({ error: 'Failed to get posts: ' + error.message }, 500);
+  }
+});
+
+// Get a single post
+app.get("/make-server-b017b546/posts/:id", async (c) => {
+  try {
+    const postId = c.req.param('id');
+    const post = await kv.get(`post:${postId}`);
+    
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    // Blocked accounts cannot open each other's posts, even with a direct link
+    const viewerId = await getViewerId(c);
+    const hiddenUserIds = await getHiddenUserIds(viewerId);
+    const [postWithDetails] = filterHiddenPosts(await enrichPosts([post]), hiddenUserIds);
+    if (!postWithDetails) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const [postWithState] = await attachViewerState([postWithDetails], viewerId);
+    return c.json({ post: postWithState });
+  } catch (error) {
+    console.log('Get post error:', error);
+    return c.json({ error: 'Failed to get post: ' + error.message }, 500);
+  }
+});
+
+// Get posts by the authenticated user and the accounts they follow, newest first
+app.get("/make-server-b017b546/timeline", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const prefix = `timeline:${authResult.user.id}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    await ensureTimelineIndex();
+    
+    const hiddenUserIds = await getHiddenUserIds(authResult.user.id, true);
+    const { posts, nextCursor } = await getVisiblePostsPage(prefix, page, hiddenUserIds, authResult.user.id);
+    
+    return c.json({ posts, nextCursor });
+  } catch (error) {
+    console.log('Get timeline error:', error);
+    return c.json({ error: 'Failed to get timeline: ' + error.message }, 500);
+  }
+});
+
+// Create post
+app.post("/make-server-b017b546/posts", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      console.log('Create post auth error:', authResult.error);
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const { content = '', mediaIds, quoteOf } = await c.req.json();
+    const attachmentIds: string[] = Array.isArray(mediaIds) ? [...new Set(mediaIds as string[])] : [];
+    
+    if (content.trim().length === 0 && attachmentIds.length === 0) {
+      console.log('Create post error: Empty content');
+      return c.json({ error: 'Post content is required' }, 400);
+    }
+    
+    if (content.length > 280) {
+      console.log('Create post error: Content too long');
+      return c.json({ error: 'Post content must be 280 characters or less' }, 400);
+    }
+    
+    if (attachmentIds.length > MAX_MEDIA_PER_POST) {
+      return c.json({ error: `A post can have at most ${MAX_MEDIA_PER_POST} images` }, 400);
+    }
+    
+    // Quoting a plain repost quotes the post that was reposted
+    let quotedPost = null;
+    if (quoteOf) {
+      quotedPost = await kv.get(`post:${quoteOf}`);
+      if (quotedPost?.repostOf) {
+        quotedPost = await kv.get(`post:${quotedPost.repostOf}`);
+      }
+      if (!quotedPost) {
+        return c.json({ error: 'Quoted post not found' }, 404);
+      }
+      if (await isBlockedBetween(authResult.user.id, quotedPost.userId)) {
+        return c.json({ error: 'You cannot interact with this user' }, 403);
+      }
+    }
+    
+    // Attachments must be the caller's own uploads that are not used by another post yet
+    const uploads = await kv.mget(attachmentIds.map(id => `media:${id}`));
+    const uploadsById = new Map(uploads.map((m: any) => [m.id, m]));
+    const attachments = attachmentIds.map(id => uploadsById.get(id));
+    if (attachments.some((m: any) => !m || m.userId !== authResult.user.id || m.postId)) {
+      return c.json({ error: 'Invalid media attachment' }, 400);
+    }
+    
+    // Auto-create user profile if not exists
+    let user = await getAccount(c);
+    if (!user) {
+      console.log('User profile not found, creating from auth metadata...');
+      user = {
+        id: authResult.user.id,
+        email: authResult.user.email || '',
+        name: authResult.user.user_metadata?.name || authResult.user.email?.split('@')[0] || 'User',
+        bio: '',
+        avatar: '',
+        createdAt: new Date().toISOString()
+      };
+      user.handle = await assignDefaultHandle(user);
+      await kv.set(`user:${authResult.user.id}`, user);
+      console.log('User profile created:', user);
+    }
+    
+    const postId = crypto.randomUUID();
+    const post = {
+      id: postId,
+      userId: authResult.user.id,
+      content: content.trim(),
+      hashtags: extractHashtags(content),
+      mentions: await resolveMentions(content),
+      media: attachments.map(publicMedia),
+      quoteOf: quotedPost ? quotedPost.id : null,
+      createdAt: new Date().toISOString()
+    };
+    
+    console.log('Creating post:', { postId, userId: authResult.user.id });
+    await kv.mset(
+      [
+        `post:${postId}`,
+        ...postIndexKeys(post),
+        postStatsKey(postId),
+        ...attachments.map((m: any) => `media:${m.id}`),
+        ...(quotedPost ? [quoteKey(quotedPost.id, postId)] : [])
+      ],
+      [
+        post,
+        ...postIndexKeys(post).map(() => ({ postId })),
+        { postId, likesCount: 0, commentsCount: 0, repostsCount: 0, quotesCount: 0 },
+        ...attachments.map((m: any) => ({ ...m, postId })),
+        ...(quotedPost ? [{ postId }] : [])
+      ]
+    );
+    if (attachments.length > 0) {
+      await kv.mdel(attachments.map(pendingMediaKey));
+    }
+    await addToTimelines(post);
+    console.log('Post created successfully');
+    
+    if (quotedPost) {
+      await adjustPostStats(quotedPost.id, { quotesCount: 1 });
+    }
+    await notifyMentions(post.mentions, [], { actorId: post.userId, postId });
+    await realtime.publish('post.created', { postId, userId: post.userId });
+    
+    const [postWithDetails] = await enrichPosts([post]);
+    return c.json({ 
+      message: 'Post berhasil dibuat!',
+      post: postWithDetails
+    });
+  } catch (error) {
+    console.log('Create post error:', error);
+    return c.json({ error: 'Failed to create post: ' + error.message }, 500);
+  }
+});
+
+// Edit post. The previous content is kept as a revision.
+app.put("/make-server-b017b546/posts/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const postId = c.req.param('id');
+    const { content = '' } = await c.req.json();
+    
+    const post = await kv.get(`post:${postId}`);
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    if (post.repostOf) {
+      return c.json({ error: 'Reposts cannot be edited' }, 400);
+    }
+    
+    // Posts with images may have their text removed entirely
+    if (content.trim().length === 0 && !post.media?.length) {
+      return c.json({ error: 'Post content is required' }, 400);
+    }
+    
+    if (content.length > 280) {
+      return c.json({ error: 'Post content must be 280 characters or less' }, 400);
+    }
+    
+    if (post.userId !== authResult.user.id) {
+      return c.json({ error: 'Unauthorized to edit this post' }, 403);
+    }
+    
+    if (Date.now() - new Date(post.createdAt).getTime() > POST_EDIT_WINDOW_MS) {
+      return c.json({ error: 'Post can no longer be edited' }, 403);
+    }
+    
+    const [enrichedPost] = await enrichPosts([post]);
+    if (content.trim() === post.content) {
+      return c.json({ post: enrichedPost });
+    }
+    
+    const now = new Date().toISOString();
+    const revision = {
+      postId,
+      content: post.content,
+      createdAt: post.editedAt || post.createdAt,
+      replacedAt: now
+    };
+    const updatedPost = {
+      ...post,
+      content: content.trim(),
+      hashtags: extractHashtags(content),
+      mentions: await resolveMentions(content),
+      editedAt: now
+    };
+    
+    // Move the post between hashtag indexes when its tags changed
+    const newIndexKeys = postIndexKeys(updatedPost);
+    const staleIndexKeys = postIndexKeys(post).filter((key) => !newIndexKeys.includes(key));
+    if (staleIndexKeys.length > 0) {
+      await kv.mdel(staleIndexKeys);
+    }
+    
+    await kv.mset(
+      [`post:${postId}`, revisionKey(revision), ...newIndexKeys],
+      [updatedPost, revision, ...newIndexKeys.map(() => ({ postId }))]
+    );
+    
+    await notifyMentions(updatedPost.mentions, post.mentions || [], { actorId: post.userId, postId });
+    
+    return c.json({
+      message: 'Postingan berhasil diperbarui',
+      post: { ...enrichedPost, ...updatedPost }
+    });
+  } catch (error) {
+    console.log('Edit post error:', error);
+    return c.json({ error: 'Failed to edit post: ' + error.message }, 500);
+  }
+});
+
+// Get the edit history of a post, oldest version first
+app.get("/make-server-b017b546/posts/:id/revisions", async (c) => {
+  try {
+    const postId = c.req.param('id');
+    const post = await kv.get(`post:${postId}`);
+    
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const revisions = await kv.getByPrefix(`revision:${postId}:`);
+    revisions.sort((a: any, b: any) => a.replacedAt.localeCompare(b.replacedAt));
+    
+    return c.json({
+      revisions: [
+        ...revisions.map((r: any) => ({ content: r.content, createdAt: r.createdAt })),
+        { content: post.content, createdAt: post.editedAt || post.createdAt }
+      ]
+    });
+  } catch (error) {
+    console.log('Get revisions error:', error);
+    return c.json({ error: 'Failed to fetch revisions: ' + error.message }, 500);
+  }
+});
+
+// Delete post
+app.delete("/make-server-b017b546/posts/:id", requirePermission(), async (c) => {
+  try {
+    const postId = c.req.param('id');
+    const post = await kv.get(`post:${postId}`);
+    
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    if (!canRemoveContent(c.get('account'), [post.userId])) {
+      return c.json({ error: 'Unauthorized to delete this post' }, 403);
+    }
+    
+    await deletePost(post);
+    
+    return c.json({ success: true, message: 'Post berhasil dihapus' });
+  } catch (error) {
+    console.log('Delete post error:', error);
+    return c.json({ error: 'Failed to delete post: ' + error.message }, 500);
+  }
+});
+
+// ============ MEDIA ROUTES ============
+
+// Upload an image for a post. The returned id is passed to POST /posts in `mediaIds`.
+app.post("/make-server-b017b546/media", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const upload = await readImageUpload(c, MAX_IMAGE_BYTES);
+    if (upload.error) {
+      return c.json({ error: upload.error }, upload.status);
+    }
+    
+    const { file, data, image } = upload;
+    const mediaId = crypto.randomUUID();
+    const path = `posts/${authResult.user.id}/${mediaId}.${IMAGE_EXTENSIONS[file.type]}`;
+    const thumbnailPath = `posts/${authResult.user.id}/${mediaId}_thumb.jpg`;
+    const { width, height } = image;
+    
+    const thumbnail = await fitImage(image, THUMBNAIL_SIZE).encodeJPEG(80);
+    await storage.upload(path, data, file.type);
+    await storage.upload(thumbnailPath, thumbnail, 'image/jpeg');
+    
+    const media = {
+      id: mediaId,
+      userId: authResult.user.id,
+      postId: null,
+      path,
+      thumbnailPath,
+      url: await storage.publicUrl(path),
+      thumbnailUrl: await storage.publicUrl(thumbnailPath),
+      width,
+      height,
+      contentType: file.type,
+      createdAt: new Date().toISOString()
+    };
+    
+    await kv.mset([`media:${mediaId}`, pendingMediaKey(media)], [media, { mediaId }]);
+    await sweepPendingMedia();
+    
+    return c.json({ media: publicMedia(media) });
+  } catch (error) {
+    console.log('Upload media error:', error);
+    return c.json({ error: 'Failed to upload image: ' + error.message }, 500);
+  }
+});
+
+// Serve uploaded files when the local storage backend is used
+app.get("/make-server-b017b546/media/files/*", async (c) => {
+  try {
+    if (storage.backend() !== 'local') {
+      return c.json({ error: 'Not found' }, 404);
+    }
+    
+    const { readLocalFile } = await import("./storage_local.tsx");
+    const path = decodeURIComponent(c.req.path.slice('/make-server-b017b546/media/files/'.length));
+    const data = await readLocalFile(storage.localDir(), path);
+    
+    if (!data) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+    
+    const extension = path.slice(path.lastIndexOf('.') + 1);
+    const contentType = Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === extension);
+    
+    return new Response(data, {
+      headers: {
+        'Content-Type': contentType || 'application/octet-stream',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    console.log('Serve media error:', error);
+    return c.json({ error: 'Failed to serve file: ' + error.message }, 500);
+  }
+});
+
+// ============ HASHTAG ROUTES ============
+
+// Get trending hashtags, scored by how often and how recently they were used
+app.get("/make-server-b017b546/hashtags/trending", async (c) => {
+  try {
+    await ensureFeedIndex();
+    await ensureHashtagIndex();
+    
+    const entries = await kv.getPageByPrefix('feed:', TRENDING_SCAN_LIMIT);
+    const hiddenUserIds = await getHiddenUserIds(await getViewerId(c), true);
+    // Blocked and muted accounts don't add to the viewer's trending counts
+    const posts = (await getPostsByIds(entries.map((entry) => entry.value.postId)))
+      .filter((post: any) => !hiddenUserIds.has(post.userId));
+    const now = Date.now();
+    
+    const tagStats = new Map<string, { tag: string; postsCount: number; score: number }>();
+    for (const post of posts) {
+      const age = now - new Date(post.createdAt).getTime();
+      if (age > TRENDING_WINDOW_MS) {
+        continue;
+      }
+      
+      const weight = Math.pow(0.5, Math.max(age, 0) / TRENDING_HALF_LIFE_MS);
+      for (const tag of post.hashtags || []) {
+        const stats = tagStats.get(tag) || { tag, postsCount: 0, score: 0 };
+        stats.postsCount += 1;
+        stats.score += weight;
+        tagStats.set(tag, stats);
+      }
+    }
+    
+    const hashtags = [...tagStats.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TRENDING_RESULTS_LIMIT)
+      .map((stats) => ({ ...stats, score: Math.round(stats.score * 100) / 100 }));
+    
+    return c.json({ hashtags });
+  } catch (error) {
+    console.log('Get trending hashtags error:', error);
+    return c.json({ error: 'Failed to get trending hashtags: ' + error.message }, 500);
+  }
+});
+
+// Get posts with a hashtag, newest first
+app.get("/make-server-b017b546/hashtags/:tag/posts", async (c) => {
+  try {
+    const tag = c.req.param('tag').replace(/^#/, '').toLowerCase();
+    const prefix = `hashtag:${tag}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    await ensureHashtagIndex();
+    
+    const viewerId = await getViewerId(c);
+    const hiddenUserIds = await getHiddenUserIds(viewerId);
+    const { posts, nextCursor } = await getVisiblePostsPage(prefix, page, hiddenUserIds, viewerId);
+    
+    return c.json({ tag, posts, nextCursor });
+  } catch (error) {
+    console.log('Get hashtag posts error:', error);
+    return c.json({ error: 'Failed to get hashtag posts: ' + error.message }, 500);
+  }
+});
+
+// ============ REPOST ROUTES ============
+
+// Toggle a plain repost. Reposting a repost reposts the original post.
+app.post("/make-server-b017b546/posts/:id/repost", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const target = await kv.get(`post:${c.req.param('id')}`);
+    const original = target?.repostOf ? await kv.get(`post:${target.repostOf}`) : target;
+    if (!original) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const userId = authResult.user.id;
+    const existingRepost = await kv.get(repostKey(original.id, userId));
+    
+    if (!existingRepost && await isBlockedBetween(userId, original.userId)) {
+      return c.json({ error: 'You cannot interact with this user' }, 403);
+    }
+    
+    if (existingRepost) {
+      // Undo the repost
+      const repostPost = await kv.get(`post:${existingRepost.postId}`);
+      if (repostPost) {
+        await deletePost(repostPost);
+      } else {
+        await kv.del(repostKey(original.id, userId));
+        await adjustPostStats(original.id, { repostsCount: -1 });
+      }
+      
+      const stats = await kv.get(postStatsKey(original.id));
+      return c.json({ reposted: false, repostsCount: stats?.repostsCount || 0 });
+    }
+    
+    const postId = crypto.randomUUID();
+    const post = {
+      id: postId,
+      userId,
+      content: '',
+      hashtags: [],
+      mentions: [],
+      media: [],
+      repostOf: original.id,
+      createdAt: new Date().toISOString()
+    };
+    
+    await kv.mset(
+      [`post:${postId}`, ...postIndexKeys(post), postStatsKey(postId), repostKey(original.id, userId)],
+      [
+        post,
+        ...postIndexKeys(post).map(() => ({ postId })),
+        { postId, likesCount: 0, commentsCount: 0, repostsCount: 0, quotesCount: 0 },
+        { postId, userId }
+      ]
+    );
+    await addToTimelines(post);
+    
+    const stats = await adjustPostStats(original.id, { repostsCount: 1 });
+    await realtime.publish('post.created', { postId, userId });
+    
+    return c.json({ reposted: true, repostsCount: stats.repostsCount });
+  } catch (error) {
+    console.log('Toggle repost error:', error);
+    return c.json({ error: 'Failed to toggle repost: ' + error.message }, 500);
+  }
+});
+
+// Check if the authenticated user reposted a post
+app.get("/make-server-b017b546/posts/:id/repost/check", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ reposted: false });
+    }
+    
+    const existingRepost = await kv.get(repostKey(c.req.param('id'), authResult.user.id));
+    
+    return c.json({ reposted: !!existingRepost });
+  } catch (error) {
+    console.log('Check repost error:', error);
+    return c.json({ reposted: false });
+  }
+});
+
+// ============ BOOKMARK ROUTES ============
+
+// Toggle a bookmark on a post, optionally saving it into one of the user's collections
+app.post("/make-server-b017b546/posts/:id/bookmark", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const postId = c.req.param('id');
+    const userId = authResult.user.id;
+    const existingBookmark = await kv.get(bookmarkPointerKey(postId, userId));
+    
+    if (existingBookmark) {
+      await kv.mdel(bookmarkKeys(existingBookmark));
+      return c.json({ bookmarked: false, collectionId: null });
+    }
+    
+    const post = await kv.get(`post:${postId}`);
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const { collectionId = null } = await c.req.json().catch(() => ({}));
+    if (collectionId && !(await kv.get(collectionKey(userId, collectionId)))) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const bookmark = { userId, postId, collectionId, createdAt: new Date().toISOString() };
+    await kv.mset(bookmarkKeys(bookmark), bookmarkValues(bookmark));
+    
+    return c.json({ bookmarked: true, collectionId });
+  } catch (error) {
+    console.log('Toggle bookmark error:', error);
+    return c.json({ error: 'Failed to toggle bookmark: ' + error.message }, 500);
+  }
+});
+
+// Move a bookmarked post into another collection, or out of any collection with null
+app.put("/make-server-b017b546/posts/:id/bookmark", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const userId = authResult.user.id;
+    const existingBookmark = await kv.get(bookmarkPointerKey(c.req.param('id'), userId));
+    if (!existingBookmark) {
+      return c.json({ error: 'Bookmark not found' }, 404);
+    }
+    
+    const { collectionId = null } = await c.req.json();
+    if (collectionId && !(await kv.get(collectionKey(userId, collectionId)))) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const bookmark = { ...existingBookmark, collectionId };
+    await kv.mdel(bookmarkKeys(existingBookmark));
+    await kv.mset(bookmarkKeys(bookmark), bookmarkValues(bookmark));
+    
+    return c.json({ bookmarked: true, collectionId });
+  } catch (error) {
+    console.log('Move bookmark error:', error);
+    return c.json({ error: 'Failed to move bookmark: ' + error.message }, 500);
+  }
+});
+
+// Check if the authenticated user bookmarked a post
+app.get("/make-server-b017b546/posts/:id/bookmark/check", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ bookmarked: false, collectionId: null });
+    }
+    
+    const bookmark = await kv.get(bookmarkPointerKey(c.req.param('id'), authResult.user.id));
+    
+    return c.json({ bookmarked: !!bookmark, collectionId: bookmark?.collectionId || null });
+  } catch (error) {
+    console.log('Check bookmark error:', error);
+    return c.json({ bookmarked: false, collectionId: null });
+  }
+});
+
+// Get the authenticated user's bookmarked posts, newest bookmark first.
+// Pass `collectionId` to list a single collection.
+app.get("/make-server-b017b546/bookmarks", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const userId = authResult.user.id;
+    const collectionId = c.req.query('collectionId');
+    if (collectionId && !(await kv.get(collectionKey(userId, collectionId)))) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const prefix = collectionId ? `collectionbookmark:${userId}:${collectionId}:` : `bookmark:${userId}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    const hiddenUserIds = await getHiddenUserIds(userId);
+    const { posts, nextCursor } = await getVisiblePostsPage(prefix, page, hiddenUserIds, userId);
+    
+    return c.json({ posts, nextCursor });
+  } catch (error) {
+    console.log('Get bookmarks error:', error);
+    return c.json({ error: 'Failed to get bookmarks: ' + error.message }, 500);
+  }
+});
+
+// List the authenticated user's bookmark collections, oldest first
+app.get("/make-server-b017b546/bookmarks/collections", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const collections = await kv.getByPrefix(`collection:${authResult.user.id}:`);
+    collections.sort((a: any, b: any) => a.createdAt.localeCompare(b.createdAt));
+    
+    return c.json({ collections });
+  } catch (error) {
+    console.log('Get collections error:', error);
+    return c.json({ error: 'Failed to get collections: ' + error.message }, 500);
+  }
+});
+
+// Create a named bookmark collection
+app.post("/make-server-b017b546/bookmarks/collections", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const { name = '' } = await c.req.json();
+    if (!name.trim()) {
+      return c.json({ error: 'Collection name is required' }, 400);
+    }
+    if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      return c.json({ error: `Collection name must be ${MAX_COLLECTION_NAME_LENGTH} characters or less` }, 400);
+    }
+    
+    const collection = {
+      id: crypto.randomUUID(),
+      userId: authResult.user.id,
+      name: name.trim(),
+      createdAt: new Date().toISOString()
+    };
+    await kv.set(collectionKey(collection.userId, collection.id), collection);
+    
+    return c.json({ collection });
+  } catch (error) {
+    console.log('Create collection error:', error);
+    return c.json({ error: 'Failed to create collection: ' + error.message }, 500);
+  }
+});
+
+// Rename a bookmark collection
+app.put("/make-server-b017b546/bookmarks/collections/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const collection = await kv.get(collectionKey(authResult.user.id, c.req.param('id')));
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const { name = '' } = await c.req.json();
+    if (!name.trim()) {
+      return c.json({ error: 'Collection name is required' }, 400);
+    }
+    if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      return c.json({ error: `Collection name must be ${MAX_COLLECTION_NAME_LENGTH} characters or less` }, 400);
+    }
+    
+    const updatedCollection = { ...collection, name: name.trim() };
+    await kv.set(collectionKey(collection.userId, collection.id), updatedCollection);
+    
+    return c.json({ collection: updatedCollection });
+  } catch (error) {
+    console.log('Rename collection error:', error);
+    return c.json({ error: 'Failed to rename collection: ' + error.message }, 500);
+  }
+});
+
+// Delete a bookmark collection. Its bookmarks are kept, outside of any collection.
+app.delete("/make-server-b017b546/bookmarks/collections/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const userId = authResult.user.id;
+    const collection = await kv.get(collectionKey(userId, c.req.param('id')));
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const entries = await kv.getByPrefix(`collectionbookmark:${userId}:${collection.id}:`);
+    const bookmarks = (await kv.mget(entries.map((entry: any) => bookmarkPointerKey(entry.postId, userId))))
+      .filter((bookmark: any) => bookmark.collectionId === collection.id);
+    
+    await kv.mdel([collectionKey(userId, collection.id), ...bookmarks.flatMap(bookmarkKeys)]);
+    const uncollected = bookmarks.map((bookmark: any) => ({ ...bookmark, collectionId: null }));
+    if (uncollected.length > 0) {
+      await kv.mset(uncollected.flatMap(bookmarkKeys), uncollected.flatMap(bookmarkValues));
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete collection error:', error);
+    return c.json({ error: 'Failed to delete collection: ' + error.message }, 500);
+  }
+});
+
+// ============ LIKE ROUTES ============
+
+// Toggle like
+app.post("/make-server-b017b546/posts/:id/like", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const postId = c.req.param('id');
+    const post = await kv.get(`post:${postId}`);
+    
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const likeKey = `like:${postId}:${authResult.user.id}`;
+    const existingLike = await kv.get(likeKey);
+    
+    // Removing an old like is still allowed after a block
+    if (!existingLike && await isBlockedBetween(authResult.user.id, post.userId)) {
+      return c.json({ error: 'You cannot interact with this user' }, 403);
+    }
+    
+    if (existingLike) {
+      // Unlike
+      await kv.del(likeKey);
+      const stats = await adjustPostStats(postId, { likesCount: -1 });
+      return c.json({ liked: false, likesCount: stats.likesCount });
+    } else {
+      // Like
+      await kv.set(likeKey, {
+        postId,
+        userId: authResult.user.id,
+        createdAt: new Date().toISOString()
+      });
+      const stats = await adjustPostStats(postId, { likesCount: 1 });
+      await addNotification({
+        userId: post.userId,
+        type: 'like',
+        groupKey: `like:${postId}`,
+        actorId: authResult.user.id,
+        postId
+      });
+      return c.json({ liked: true, likesCount: stats.likesCount });
+    }
+  } catch (error) {
+    console.log('Toggle like error:', error);
+    return c.json({ error: 'Failed to toggle like: ' + error.message }, 500);
+  }
+});
+
+// Check if user liked post
+app.get("/make-server-b017b546/posts/:id/like/check", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ liked: false });
+    }
+    
+    const postId = c.req.param('id');
+    const likeKey = `like:${postId}:${authResult.user.id}`;
+    const existingLike = await kv.get(likeKey);
+    
+    return c.json({ liked: !!existingLike });
+  } catch (error) {
+    console.log('Check like error:', error);
+    return c.json({ liked: false });
+  }
+});
+
+// ============ COMMENT ROUTES ============
+
+// Get comments for a post as a thread. Pass `parentId` to page through the replies of one comment.
+app.get("/make-server-b017b546/posts/:id/comments", async (c) => {
+  try {
+    const postId = c.req.param('id');
+    const parentId = c.req.query('parentId') || null;
+    
+    // Comment cursors point forward in time, so the decoded cursor is the last comment already shown
+    const page = parsePageQuery(c, '');
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    
+    const depthParam = parseInt(c.req.query('depth') || '', 10);
+    const depth = Number.isNaN(depthParam)
+      ? DEFAULT_COMMENT_DEPTH
+      : Math.min(Math.max(depthParam, 1), MAX_COMMENT_DEPTH);
+    
+    // Blocked accounts cannot read the comments on each other's posts, like the post itself
+    const hiddenUserIds = await getHiddenUserIds(await getViewerId(c));
+    const post = await kv.get(`post:${postId}`);
+    if (!post || hiddenUserIds.has(post.userId)) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    // Comments by blocked accounts stay in place for their replies, without their content
+    const comments = (await kv.getByPrefix(`comment:${postId}:`)).map((comment: any) =>
+      hiddenUserIds.has(comment.userId) ? { ...comment, content: '', mentions: [], hidden: true } : comment
+    );
+    
+    if (parentId && !comments.some((comment: any) => comment.id === parentId)) {
+      return c.json({ error: 'Comment not found' }, 404);
+    }
+    
+    // Sort by createdAt ascending and group by parent
+    comments.sort((a: any, b: any) => commentSortKey(a) < commentSortKey(b) ? -1 : 1);
+    const childrenByParent = new Map<string | null, any[]>();
+    for (const comment of comments) {
+      const key = comment.parentCommentId || null;
+      childrenByParent.set(key, [...(childrenByParent.get(key) || []), comment]);
+    }
+    
+    // Get user info for each comment
+    const users = await getUsersByIds([...new Set(
+      comments.filter((comment: any) => !comment.hidden).map((comment: any) => comment.userId)
+    )] as string[]);
+    const usersById = new Map(users.map((user: any) => [user.id, user]));
+    
+    const thread = assembleCommentThread(
+      childrenByParent,
+      usersById,
+      parentId,
+      { limit: page.limit, after: page.before },
+      depth
+    );
+    
+    return c.json({ comments: thread.comments, nextCursor: thread.nextCursor });
+  } catch (error) {
+    console.log('Get comments error:', error);
+    return c.json({ error: 'Failed to get comments: ' + error.message }, 500);
+  }
+});
+
+// Add comment
+app.post("/make-server-b017b546/posts/:id/comments", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const postId = c.req.param('id');
+    const { content, parentCommentId } = await c.req.json();
+    
+    if (!content || content.trim().length === 0) {
+      return c.json({ error: 'Comment content is required' }, 400);
+    }
+    
+    const post = await kv.get(`post:${postId}`);
+    if (!post) {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+    
+    const parentComment = parentCommentId ? await kv.get(`comment:${postId}:${parentCommentId}`) : null;
+    if (parentCommentId && !parentComment) {
+      return c.json({ error: 'Parent comment not found' }, 404);
+    }
+    
+    if (await isBlockedBetween(authResult.user.id, post.userId)
+      || (parentComment && await isBlockedBetween(authResult.user.id, parentComment.userId))) {
+      return c.json({ error: 'You cannot interact with this user' }, 403);
+    }
+    
+    // Auto-create user profile if not exists
+    let user = await getAccount(c);
+    if (!user) {
+      console.log('User profile not found for comment, creating from auth metadata...');
+      user = {
+        id: authResult.user.id,
+        email: authResult.user.email || '',
+        name: authResult.user.user_metadata?.name || authResult.user.email?.split('@')[0] || 'User',
+        bio: '',
+        avatar: '',
+        createdAt: new Date().toISOString()
+      };
+      user.handle = await assignDefaultHandle(user);
+      await kv.set(`user:${authResult.user.id}`, user);
+    }
+    
+    const commentId = crypto.randomUUID();
+    const comment = {
+      id: commentId,
+      postId,
+      userId: authResult.user.id,
+      parentCommentId: parentCommentId || null,
+      content: content.trim(),
+      mentions: await resolveMentions(content),
+      createdAt: new Date().toISOString()
+    };
+    
+    await kv.set(`comment:${postId}:${commentId}`, comment);
+    await adjustPostStats(postId, { commentsCount: 1 });
+    await notifyMentions(comment.mentions, [], { actorId: comment.userId, postId, commentId });
+    await realtime.publish('comment.created', {
+      postId,
+      commentId,
+      parentCommentId: comment.parentCommentId,
+      userId: comment.userId
+    });
+    
+    // Mentioned users already got a notification for this comment
+    const mentionedUserIds = new Set(comment.mentions.map((mention) => mention.userId));
+    if (parentComment && !parentComment.deletedAt && !mentionedUserIds.has(parentComment.userId)) {
+      await addNotification({
+        userId: parentComment.userId,
+        type: 'reply',
+        groupKey: `reply:${parentComment.id}`,
+        actorId: comment.userId,
+        postId,
+        commentId
+      });
+    }
+    if (post.userId !== parentComment?.userId && !mentionedUserIds.has(post.userId)) {
+      await addNotification({
+        userId: post.userId,
+        type: 'comment',
+        groupKey: `comment:${postId}`,
+        actorId: comment.userId,
+        postId,
+        commentId
+      });
+    }
+    
+    return c.json({ 
+      comment: {
+        ...comment,
+        user: user ? { id: user.id, name: user.name, handle: user.handle, avatar: user.avatar } : null,
+        replies: [],
+        repliesCount: 0,
+        repliesCursor: null
+      }
+    });
+  } catch (error) {
+    console.log('Add comment error:', error);
+    return c.json({ error: 'Failed to add comment: ' + error.message }, 500);
+  }
+});
+
+// Edit comment
+app.put("/make-server-b017b546/posts/:postId/comments/:commentId", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const postId = c.req.param('postId');
+    const commentId = c.req.param('commentId');
+    const { content } = await c.req.json();
+    
+    if (!content || content.trim().length === 0) {
+      return c.json({ error: 'Comment content is required' }, 400);
+    }
+    
+    const comment = await kv.get(`comment:${postId}:${commentId}`);
+    if (!comment || comment.deletedAt) {
+      return c.json({ error: 'Comment not found' }, 404);
+    }
+    
+    if (comment.userId !== authResult.user.id) {
+      return c.json({ error: 'Unauthorized to edit this comment' }, 403);
+    }
+    
+    const updatedComment = {
+      ...comment,
+      content: content.trim(),
+      mentions: await resolveMentions(content),
+      editedAt: new Date().toISOString()
+    };
+    
+    await kv.set(`comment:${postId}:${commentId}`, updatedComment);
+    await notifyMentions(updatedComment.mentions, comment.mentions || [], {
+      actorId: comment.userId,
+      postId,
+      commentId
+    });
+    
+    const user = await kv.get(`user:${comment.userId}`);
+    return c.json({
+      comment: {
+        ...updatedComment,
+        user: user ? { id: user.id, name: user.name, handle: user.handle, avatar: user.avatar } : null
+      }
+    });
+  } catch (error) {
+    console.log('Edit comment error:', error);
+    return c.json({ error: 'Failed to edit comment: ' + error.message }, 500);
+  }
+});
+
+// Delete comment. Comments with replies are kept as a placeholder so the thread stays intact.
+app.delete("/make-server-b017b546/posts/:postId/comments/:commentId", requirePermission(), async (c) => {
+  try {
+    const postId = c.req.param('postId');
+    const commentId = c.req.param('commentId');
+    
+    const comment = await kv.get(`comment:${postId}:${commentId}`);
+    if (!comment || comment.deletedAt) {
+      return c.json({ error: 'Comment not found' }, 404);
+    }
+    
+    const post = await kv.get(`post:${postId}`);
+    if (!canRemoveContent(c.get('account'), [comment.userId, ...(post ? [post.userId] : [])])) {
+      return c.json({ error: 'Unauthorized to delete this comment' }, 403);
+    }
+    
+    const { placeholder, removedIds, stats } = await deleteComment(comment);
+    
+    return c.json({ success: true, placeholder, removedIds, commentsCount: stats.commentsCount });
+  } catch (error) {
+    console.log('Delete comment error:', error);
+    return c.json({ error: 'Failed to delete comment: ' + error.message }, 500);
+  }
+});
+
+// ============ FOLLOW ROUTES ============
+
+// Seed random Indonesian users
+app.post("/make-server-b017b546/seed-users", async (c) => {
+  try {
+    // Check if users already seeded
+    const existingUsers = await kv.get('seed:users:done');
+    if (existingUsers) {
+      return c.json({ success: true, message: 'Users already seeded' });
+    }
+
+    const indonesianUsers = [
+      {
+        id: 'seed-user-1',
+        email: 'budi.santoso@example.com',
+        name: 'Budi Santoso',
+        handle: 'budisantoso',
+        bio: 'Penggemar teknologi dan kopi ☕ | Jakarta',
+        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Budi',
+        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days ago
+      },
+      {
+        id: 'seed-user-2',
+        email: 'siti.nurhaliza@example.com',
+        name: 'Siti Nurhaliza',
+        handle: 'sitinurhaliza',
+        bio: 'Content creator & foodie 🍜 | Bandung',
+        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Siti',
+        createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        id: 'seed-user-3',
+        email: 'ahmad.wijaya@example.com',
+        name: 'Ahmad Wijaya',
+        handle: 'ahmadwijaya',
+        bio: 'Traveler & photographer 📸 | Yogyakarta',
+        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Ahmad',
+        createdAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        id: 'seed-user-4',
+        email: 'rina.kartika@example.com',
+        name: 'Rina Kartika',
+        handle: 'rinakartika',
+        bio: 'UI/UX Designer | Love minimalism 🎨 | Surabaya',
+        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Rina',
+        createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        id: 'seed-user-5',
+        email: 'deni.prasetyo@example.com',
+        name: 'Deni Prasetyo',
+        handle: 'deniprasetyo',
+        bio: 'Fullstack Developer | Coffee enthusiast ☕ | Bali',
+        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Deni',
+        createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString()
+      }
+    ];
+
+    // Store all users. A seed handle already claimed by a real account falls back to a default one.
+    for (const user of indonesianUsers) {
+      const handle = !(await validateHandle(user.handle, user.id)) && await claimHandle(user.handle, user.id)
+        ? user.handle
+        : await assignDefaultHandle(user);
+      await kv.set(`user:${user.id}`, { ...user, handle });
+    }
+
+    // Create some sample posts
+    const samplePosts = [
+      {
+        userId: 'seed-user-1',
+        content: 'Pagi ini cobain kopi baru dari kedai langganan. Rasanya mantap banget! ☕✨',
+        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        userId: 'seed-user-2',
+        content: 'Lagi nyari rekomendasi tempat makan enak di Bandung nih. Ada yang punya saran? 🍜',
+        createdAt: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        userId: 'seed-user-3',
+        content: 'Sunset di Jogja hari ini luar biasa indah! 🌅 #photography',
+        createdAt: new Date(Date.now() - 8 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        userId: 'seed-user-4',
+        content: 'Baru selesai redesign website klien. Seneng banget liat hasil akhirnya! 🎨💻',
+        createdAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString()
+      },
+      {
+        userId: 'seed-user-5',
+        content: 'Siapa yang lagi belajar React? Share tips dan trik kalian dong! 💻⚛️',
+        createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      }
+    ];
+
+    for (const samplePost of samplePosts) {
+      const postId = crypto.randomUUID();
+      const post = {
+        id: postId,
+        ...samplePost,
+        hashtags: extractHashtags(samplePost.content)
+      };
+      await kv.mset(
+        [`post:${postId}`, ...postIndexKeys(post), postStatsKey(postId)],
+        [post, ...postIndexKeys(post).map(() => ({ postId })), { postId, likesCount: 0, commentsCount: 0 }]
+      );
+      await addToTimelines(post);
+    }
+
+    // Mark as seeded
+    await kv.set('seed:users:done', { done: true, timestamp: new Date().toISOString() });
+
+    return c.json({ success: true, message: 'Users seeded successfully' });
+  } catch (error) {
+    console.log('Seed users error:', error);
+    return c.json({ error: 'Failed to seed users: ' + error.message }, 500);
+  }
+});
+
+// Toggle follow
+app.post("/make-server-b017b546/follows/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const targetUserId = c.req.param('id');
+    
+    if (targetUserId === authResult.user.id) {
+      return c.json({ error: 'Cannot follow yourself' }, 400);
+    }
+    
+    const targetUser = await kv.get(`user:${targetUserId}`);
+    if (!targetUser) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    await ensureFollowIndex();
+    
+    const followKey = `follow:${authResult.user.id}:${targetUserId}`;
+    const existingFollow = await kv.get(followKey);
+    
+    if (existingFollow) {
+      // Unfollow
+      await kv.mdel(followKeys(existingFollow));
+      await syncTimelineAuthor(authResult.user.id, targetUserId, false);
+      return c.json({ following: false });
+    } else if (await isBlockedBetween(authResult.user.id, targetUserId)) {
+      return c.json({ error: 'You cannot interact with this user' }, 403);
+    } else {
+      // Follow
+      const follow = {
+        followerId: authResult.user.id,
+        followingId: targetUserId,
+        createdAt: new Date().toISOString()
+      };
+      await kv.mset(followKeys(follow), followValues(follow));
+      await syncTimelineAuthor(authResult.user.id, targetUserId, true);
+      await addNotification({
+        userId: targetUserId,
+        type: 'follow',
+        groupKey: 'follow',
+        actorId: authResult.user.id
+      });
+      return c.json({ following: true });
+    }
+  } catch (error) {
+    console.log('Toggle follow error:', error);
+    return c.json({ error: 'Failed to toggle follow: ' + error.message }, 500);
+  }
+});
+
+// Check if user follows another user
+app.get("/make-server-b017b546/follows/:id/check", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ following: false });
+    }
+    
+    const targetUserId = c.req.param('id');
+    const followKey = `follow:${authResult.user.id}:${targetUserId}`;
+    const existingFollow = await kv.get(followKey);
+    
+    return c.json({ following: !!existingFollow });
+  } catch (error) {
+    console.log('Check follow error:', error);
+    return c.json({ following: false });
+  }
+});
+
+// ============ BLOCK ROUTES ============
+
+// Helper to list the users behind block or mute records, most recent first
+async function listRelationshipUsers(records: any[], userIdField: string) {
+  records.sort((a: any, b: any) => a.createdAt < b.createdAt ? 1 : -1);
+  const users = await getUsersByIds(records.map((record: any) => record[userIdField]));
+  const usersById = new Map(users.map((user: any) => [user.id, user]));
+  
+  return records
+    .map((record: any) => usersById.get(record[userIdField]))
+    .filter(Boolean)
+    .map((user: any) => ({ id: user.id, name: user.name, handle: user.handle, avatar: user.avatar }));
+}
+
+// Block a user. Follows in both directions are removed.
+app.post("/make-server-b017b546/blocks/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const blockerId = authResult.user.id;
+    const blockedId = c.req.param('id');
+    if (blockedId === blockerId) {
+      return c.json({ error: 'Cannot block yourself' }, 400);
+    }
+    
+    const targetUser = await kv.get(`user:${blockedId}`);
+    if (!targetUser) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    
+    await ensureFollowIndex();
+    
+    const block = { blockerId, blockedId, createdAt: new Date().toISOString() };
+    await kv.mset(blockKeys(block), [block, block]);
+    
+    const follows = await kv.mget([`follow:${blockerId}:${blockedId}`, `follow:${blockedId}:${blockerId}`]);
+    if (follows.length > 0) {
+      await kv.mdel(follows.flatMap(followKeys));
+      for (const follow of follows) {
+        await syncTimelineAuthor(follow.followerId, follow.followingId, false);
+      }
+    }
+    
+    return c.json({ blocking: true });
+  } catch (error) {
+    console.log('Block user error:', error);
+    return c.json({ error: 'Failed to block user: ' + error.message }, 500);
+  }
+});
+
+// Unblock a user. Removed follows are not restored.
+app.delete("/make-server-b017b546/blocks/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    await kv.mdel(blockKeys({ blockerId: authResult.user.id, blockedId: c.req.param('id') }));
+    return c.json({ blocking: false });
+  } catch (error) {
+    console.log('Unblock user error:', error);
+    return c.json({ error: 'Failed to unblock user: ' + error.message }, 500);
+  }
+});
+
+// Get the users the authenticated user blocked
+app.get("/make-server-b017b546/blocks", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const blocks = await kv.getByPrefix(`block:${authResult.user.id}:`);
+    return c.json({ users: await listRelationshipUsers(blocks, 'blockedId') });
+  } catch (error) {
+    console.log('Get blocks error:', error);
+    return c.json({ error: 'Failed to get blocked users: ' + error.message }, 500);
+  }
+});
+
+// Mute a user. Only the muter's feeds and notifications change; the muted user is not told.
+app.post("/make-server-b017b546/mutes/:id", async (c) => {
   try {
-    const { data: { user }, error } = await supabaseAuth.auth.getUser(accessToken);
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
     
-    if (error) {
-      console.log('ERROR: Token verification failed');
-      console.log('Error code:', error.code);
-      console.log('Error message:', error.message);
-      console.log('Full error:', JSON.stringify(error, null, 2));
-      return { user: null, error: 'Invalid or expired token: ' + error.message };
+    const muterId = authResult.user.id;
+    const mutedId = c.req.param('id');
+    if (mutedId === muterId) {
+      return c.json({ error: 'Cannot mute yourself' }, 400);
     }
     
-    if (!user) {
-      console.log('ERROR: No user found for token');
-      return { user: null, error: 'Unauthorized' };
+    const targetUser = await kv.get(`user:${mutedId}`);
+    if (!targetUser) {
+      return c.json({ error: 'User not found' }, 404);
     }
     
-    console.log('SUCCESS: Token verified for user:', user.id);
-    console.log('User email:', user.email);
-    console.log('=== AUTH VERIFICATION END ===');
-    return { user, error: null };
-  } catch (error: any) {
-    console.log('ERROR: Exception during token verification');
-    console.log('Exception:', error.message);
-    console.log('=== AUTH VERIFICATION END ===');
-    return { user: null, error: 'Token verification exception: ' + error.message };
+    await kv.set(muteKey(muterId, mutedId), { muterId, mutedId, createdAt: new Date().toISOString() });
+    return c.json({ muting: true });
+  } catch (error) {
+    console.log('Mute user error:', error);
+    return c.json({ error: 'Failed to mute user: ' + error.message }, 500);
   }
-}
-
-// Health check endpoint
-app.get("/make-server-b017b546/health", (c) => {
-  return c.json({ status: "ok" });
 });
 
-// ============ AUTH ROUTES ============
-
-// Sign up
-app.post("/make-server-b017b546/auth/signup", async (c) => {
+// Unmute a user
+app.delete("/make-server-b017b546/mutes/:id", async (c) => {
   try {
-    const { email, password, name } = await c.req.json();
-    
-    if (!email || !password || !name) {
-      return c.json({ error: 'Email, password, and name are required' }, 400);
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
     }
     
-    // Create user in Supabase Auth
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: { name },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true
-    });
+    await kv.del(muteKey(authResult.user.id, c.req.param('id')));
+    return c.json({ muting: false });
+  } catch (error) {
+    console.log('Unmute user error:', error);
+    return c.json({ error: 'Failed to unmute user: ' + error.message }, 500);
+  }
+});
+
+// Get the users the authenticated user muted
+app.get("/make-server-b017b546/mutes", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
     
-    if (error) {
-      console.log('Sign up error:', error);
-      return c.json({ error: error.message }, 400);
+    const mutes = await kv.getByPrefix(`mute:${authResult.user.id}:`);
+    return c.json({ users: await listRelationshipUsers(mutes, 'mutedId') });
+  } catch (error) {
+    console.log('Get mutes error:', error);
+    return c.json({ error: 'Failed to get muted users: ' + error.message }, 500);
+  }
+});
+
+// Check whether the authenticated user blocked or muted a user, or was blocked by them
+app.get("/make-server-b017b546/users/:id/relationship", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ blocking: false, blockedBy: false, muting: false });
     }
     
-    // Store user profile in KV
-    const userId = data.user.id;
-    await kv.set(`user:${userId}`, {
-      id: userId,
-      email,
-      name,
-      bio: '',
-      avatar: '',
-      createdAt: new Date().toISOString()
-    });
+    const viewerId = authResult.user.id;
+    const targetUserId = c.req.param('id');
+    const [blocking, blockedBy, muting] = await Promise.all([
+      kv.get(`block:${viewerId}:${targetUserId}`),
+      kv.get(`block:${targetUserId}:${viewerId}`),
+      kv.get(muteKey(viewerId, targetUserId))
+    ]);
     
-    return c.json({ user: data.user });
+    return c.json({ blocking: !!blocking, blockedBy: !!blockedBy, muting: !!muting });
   } catch (error) {
-    console.log('Sign up error:', error);
-    return c.json({ error: 'Sign up failed: ' + error.message }, 500);
+    console.log('Check relationship error:', error);
+    return c.json({ blocking: false, blockedBy: false, muting: false });
   }
 });
 
-// ============ USER ROUTES ============
-
-// Get user profile
-app.get("/make-server-b017b546/users/:id", async (c) => {
+// Get every account the authenticated user's feeds leave out, through a block either way or a
+// mute, and every account they follow, so clients can filter live events without a request each
+app.get("/make-server-b017b546/relationships", async (c) => {
   try {
-    const userId = c.req.param('id');
-    const user = await kv.get(`user:${userId}`);
-    
-    if (!user) {
-      return c.json({ error: 'User not found' }, 404);
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
     }
     
-    // Get follow stats
-    const followers = await kv.getByPrefix(`follow:*:${userId}`);
-    const following = await kv.getByPrefix(`follow:${userId}:*`);
+    await ensureFollowIndex();
+    
+    const userId = authResult.user.id;
+    const [hiddenUserIds, follows] = await Promise.all([
+      getHiddenUserIds(userId, true),
+      kv.getByPrefix(`following:${userId}:`)
+    ]);
     
     return c.json({
-      user,
-      stats: {
-        followers: followers.length,
-        following: following.length
-      }
+      hiddenUserIds: [...hiddenUserIds],
+      followingIds: follows.map((follow: any) => follow.userId)
     });
   } catch (error) {
-    console.log('Get user profile error:', error);
-    return c.json({ error: 'Failed to get user profile: ' + error.message }, 500);
+    console.log('Get relationships error:', error);
+    return c.json({ error: 'Failed to get relationships: ' + error.message }, 500);
   }
 });
 
-// Update user profile
-app.put("/make-server-b017b546/users/:id", async (c) => {
+// ============ REPORT ROUTES ============
+
+// Report a post, comment or profile. Reporting the same content again while its report
+// is still open only adds the reporter to it, and the same reporter is counted once.
+app.post("/make-server-b017b546/reports", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
       return c.json({ error: authResult.error }, 401);
     }
     
-    const userId = c.req.param('id');
-    if (authResult.user.id !== userId) {
-      return c.json({ error: 'Unauthorized to update this profile' }, 403);
+    const { targetType, targetId, postId, reason, details } = await c.req.json();
+    const reporterId = authResult.user.id;
+    
+    if (!REPORT_TARGET_TYPES.includes(targetType) || typeof targetId !== 'string' || !targetId) {
+      return c.json({ error: 'Invalid report target' }, 400);
+    }
+    if (!REPORT_REASONS.includes(reason)) {
+      return c.json({ error: 'Invalid report reason' }, 400);
+    }
+    const trimmedDetails = typeof details === 'string' ? details.trim() : '';
+    if (trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+      return c.json({ error: `Report details cannot exceed ${MAX_REPORT_DETAILS_LENGTH} characters` }, 400);
     }
     
-    const { name, bio, avatar } = await c.req.json();
-    const existingUser = await kv.get(`user:${userId}`);
+    const target = await getReportTarget(targetType, targetId, postId);
+    if (!target) {
+      return c.json({ error: 'Reported content not found' }, 404);
+    }
+    if (target.authorId === reporterId) {
+      return c.json({ error: 'Cannot report your own content' }, 400);
+    }
     
-    if (!existingUser) {
-      return c.json({ error: 'User not found' }, 404);
+    const now = new Date().toISOString();
+    const entry = { reporterId, reason, details: trimmedDetails, createdAt: now };
+    const pointer = await kv.get(reportTargetKey(targetType, targetId));
+    const existing = pointer ? await kv.get(reportKey(pointer.reportId)) : null;
+    
+    if (existing && existing.status === 'open') {
+      if (existing.entries.some((e: any) => e.reporterId === reporterId)) {
+        return c.json({ success: true, alreadyReported: true });
+      }
+      
+      await kv.set(reportKey(existing.id), {
+        ...existing,
+        entries: [...existing.entries, entry],
+        reasons: { ...existing.reasons, [reason]: (existing.reasons[reason] || 0) + 1 },
+        reportsCount: existing.reportsCount + 1,
+        updatedAt: now
+      });
+      return c.json({ success: true, alreadyReported: false });
     }
     
-    const updatedUser = {
-      ...existingUser,
-      name: name || existingUser.name,
-      bio: bio !== undefined ? bio : existingUser.bio,
-      avatar: avatar !== undefined ? avatar : existingUser.avatar,
+    const report = {
+      id: crypto.randomUUID(),
+      targetType,
+      targetId,
+      postId: target.postId,
+      authorId: target.authorId,
+      status: 'open',
+      entries: [entry],
+      reasons: { [reason]: 1 },
+      reportsCount: 1,
+      createdAt: now,
+      updatedAt: now,
+      resolvedAt: null,
+      resolution: null
     };
+    await kv.mset(
+      [reportKey(report.id), reportTargetKey(targetType, targetId), reportQueueKey(report)],
+      [report, { reportId: report.id }, { reportId: report.id }]
+    );
     
-    await kv.set(`user:${userId}`, updatedUser);
-    return c.json({ user: updatedUser });
+    return c.json({ success: true, alreadyReported: false });
   } catch (error) {
-    console.log('Update user profile error:', error);
-    return c.json({ error: 'Failed to update profile: ' + error.message }, 500);
+    console.log('Create report error:', error);
+    return c.json({ error: 'Failed to create report: ' + error.message }, 500);
   }
 });
 
-// Search users
-app.get("/make-server-b017b546/users/search/query", async (c) => {
+// ============ MODERATION ROUTES ============
+
+// Get the moderation queue, `status` being open (default) or resolved
+app.get("/make-server-b017b546/moderation/reports", requirePermission('reports:moderate'), async (c) => {
   try {
-    const query = c.req.query('q')?.toLowerCase() || '';
+    const status = c.req.query('status') === 'resolved' ? 'resolved' : 'open';
+    const prefix = `reportqueue:${status}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
     
-    if (!query) {
-      return c.json({ users: [] });
+    const { values, nextCursor } = await getIndexPage(prefix, page);
+    const reports = await kv.mget(values.map((entry: any) => reportKey(entry.reportId)));
+    const reportsById = new Map(reports.map((report: any) => [report.id, report]));
+    const orderedReports = values.map((entry: any) => reportsById.get(entry.reportId)).filter(Boolean);
+    
+    return c.json({ reports: await enrichReports(orderedReports), nextCursor });
+  } catch (error) {
+    console.log('Get moderation queue error:', error);
+    return c.json({ error: 'Failed to get moderation queue: ' + error.message }, 500);
+  }
+});
+
+// Act on a report: dismiss it, remove the content, or warn or (admins only) suspend its author.
+// The first action resolves the report; every action is kept with its moderator and time.
+app.post("/make-server-b017b546/moderation/reports/:id/actions", requirePermission('reports:moderate'), async (c) => {
+  try {
+    const account = c.get('account');
+    const moderatorId = account.id;
+    
+    const { action, note } = await c.req.json();
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return c.json({ error: 'Invalid moderation action' }, 400);
+    }
+    // Suspending an account is reserved for admins, like the suspension routes
+    if (action === 'suspend' && !hasPermission(account, 'users:manage')) {
+      return c.json({ error: 'You do not have permission to do this' }, 403);
     }
     
-    const allUsers = await kv.getByPrefix('user:');
-    const filteredUsers = allUsers.filter((user: any) => 
-      user.name.toLowerCase().includes(query) || 
-      user.email.toLowerCase().includes(query)
-    );
+    const report = await kv.get(reportKey(c.req.param('id')));
+    if (!report) {
+      return c.json({ error: 'Report not found' }, 404);
+    }
+    
+    await applyModerationAction(report, action, moderatorId);
     
-    return c.json({ users: filteredUsers.slice(0, 20) });
+    const now = new Date().toISOString();
+    const moderationAction = {
+      id: crypto.randomUUID(),
+      reportId: report.id,
+      action,
+      moderatorId,
+      note: typeof note === 'string' ? note.trim().slice(0, MAX_REPORT_DETAILS_LENGTH) : '',
+      createdAt: now
+    };
+    await kv.set(moderationActionKey(moderationAction), moderationAction);
+    
+    let updated = report;
+    if (report.status === 'open') {
+      updated = {
+        ...report,
+        status: 'resolved',
+        resolvedAt: now,
+        resolution: { action, moderatorId, createdAt: now },
+        updatedAt: now
+      };
+      await kv.mdel([reportQueueKey(report), reportTargetKey(report.targetType, report.targetId)]);
+      await kv.mset([reportKey(report.id), reportQueueKey(updated)], [updated, { reportId: report.id }]);
+    }
+    
+    const [enrichedReport] = await enrichReports([updated]);
+    return c.json({ report: enrichedReport });
   } catch (error) {
-    console.log('Search users error:', error);
-    return c.json({ error: 'Failed to search users: ' + error.message }, 500);
+    console.log('Moderation action error:', error);
+    return c.json({ error: 'Failed to apply moderation action: ' + error.message }, 500);
   }
 });
 
-// ============ POST ROUTES ============
+// ============ ADMIN ROUTES ============
 
-// Get all posts
-app.get("/make-server-b017b546/posts", async (c) => {
+// Search accounts by name or handle, with their role and suspension
+app.get("/make-server-b017b546/admin/users", requirePermission('users:manage'), async (c) => {
   try {
-    const posts = await kv.getByPrefix('post:');
+    const query = c.req.query('q')?.toLowerCase().replace(/^@/, '') || '';
     
-    // Sort by createdAt descending
-    posts.sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    await ensureUserHandles();
     
-    // Get user info and likes/comments count for each post
-    const postsWithDetails = await Promise.all(
-      posts.map(async (post: any) => {
-        const user = await kv.get(`user:${post.userId}`);
-        const likes = await kv.getByPrefix(`like:${post.id}:`);
-        const comments = await kv.getByPrefix(`comment:${post.id}:`);
-        
-        return {
-          ...post,
-          user: user ? { id: user.id, name: user.name, avatar: user.avatar } : null,
-          likesCount: likes.length,
-          commentsCount: comments.length
-        };
-      })
-    );
+    const allUsers = await kv.getByPrefix('user:');
+    const filteredUsers = query
+      ? allUsers.filter((user: any) => user.name.toLowerCase().includes(query) || !!user.handle?.includes(query))
+      : allUsers.filter((user: any) => userRole(user) !== 'user' || user.suspendedAt);
     
-    return c.json({ posts: postsWithDetails });
+    return c.json({ users: filteredUsers.slice(0, 50).map(adminUser) });
   } catch (error) {
-    console.log('Get posts error:', error);
-    return c.json({ error: 'Failed to get posts: ' + error.message }, 500);
+    console.log('Admin search users error:', error);
+    return c.json({ error: 'Failed to search users: ' + error.message }, 500);
   }
 });
 
-// Create post
-app.post("/make-server-b017b546/posts", async (c) => {
+// Assign a role to a user
+app.put("/make-server-b017b546/admin/users/:id/role", requirePermission('users:manage'), async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
-    if (authResult.error) {
-      console.log('Create post auth error:', authResult.error);
-      return c.json({ error: authResult.error }, 401);
-    }
-    
-    const { content } = await c.req.json();
+    const account = c.get('account');
+    const userId = c.req.param('id');
+    const { role } = await c.req.json();
     
-    if (!content || content.trim().length === 0) {
-      console.log('Create post error: Empty content');
-      return c.json({ error: 'Post content is required' }, 400);
+    if (!ROLES.includes(role)) {
+      return c.json({ error: 'Invalid role' }, 400);
     }
-    
-    if (content.length > 280) {
-      console.log('Create post error: Content too long');
-      return c.json({ error: 'Post content must be 280 characters or less' }, 400);
+    // Admins cannot demote themselves, so there is always someone left to manage roles
+    if (userId === account.id) {
+      return c.json({ error: 'Cannot change your own role' }, 400);
     }
     
-    // Auto-create user profile if not exists
-    let user = await kv.get(`user:${authResult.user.id}`);
+    const user = await kv.get(`user:${userId}`);
     if (!user) {
-      console.log('User profile not found, creating from auth metadata...');
-      user = {
-        id: authResult.user.id,
-        email: authResult.user.email || '',
-        name: authResult.user.user_metadata?.name || authResult.user.email?.split('@')[0] || 'User',
-        bio: '',
-        avatar: '',
-        createdAt: new Date().toISOString()
-      };
-      await kv.set(`user:${authResult.user.id}`, user);
-      console.log('User profile created:', user);
+      return c.json({ error: 'User not found' }, 404);
     }
     
-    const postId = crypto.randomUUID();
-    const post = {
-      id: postId,
-      userId: authResult.user.id,
-      content: content.trim(),
-      createdAt: new Date().toISOString()
-    };
-    
-    console.log('Creating post:', { postId, userId: authResult.user.id });
-    await kv.set(`post:${postId}`, post);
-    console.log('Post created successfully');
+    const updatedUser = { ...user, role, roleUpdatedAt: new Date().toISOString(), roleUpdatedBy: account.id };
+    await kv.set(`user:${userId}`, updatedUser);
     
-    return c.json({ 
-      message: 'Post berhasil dibuat!',
-      post: {
-        ...post,
-        user: user ? { id: user.id, name: user.name, avatar: user.avatar } : null,
-        likesCount: 0,
-        commentsCount: 0
-      }
-    });
+    return c.json({ user: adminUser(updatedUser) });
   } catch (error) {
-    console.log('Create post error:', error);
-    return c.json({ error: 'Failed to create post: ' + error.message }, 500);
+    console.log('Assign role error:', error);
+    return c.json({ error: 'Failed to assign role: ' + error.message }, 500);
   }
 });
 
-// Delete post
-app.delete("/make-server-b017b546/posts/:id", async (c) => {
+// Suspend an account. Suspended accounts can still sign in and read, but every write is refused.
+app.post("/make-server-b017b546/admin/users/:id/suspension", requirePermission('users:manage'), async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
-    if (authResult.error) {
-      return c.json({ error: authResult.error }, 401);
-    }
-    
-    const postId = c.req.param('id');
-    const post = await kv.get(`post:${postId}`);
+    const account = c.get('account');
+    const userId = c.req.param('id');
     
-    if (!post) {
-      return c.json({ error: 'Post not found' }, 404);
+    if (userId === account.id) {
+      return c.json({ error: 'Cannot suspend yourself' }, 400);
     }
     
-    if (post.userId !== authResult.user.id) {
-      return c.json({ error: 'Unauthorized to delete this post' }, 403);
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    if (user.suspendedAt) {
+      return c.json({ user: adminUser(user) });
     }
     
-    await kv.del(`post:${postId}`);
-    
-    // Delete all likes and comments for this post
-    const likes = await kv.getByPrefix(`like:${postId}:`);
-    const comments = await kv.getByPrefix(`comment:${postId}:`);
-    
-    const keysToDelete = [
-      ...likes.map((l: any) => `like:${postId}:${l.userId}`),
-      ...comments.map((c: any) => `comment:${postId}:${c.id}`)
-    ];
+    const updatedUser = { ...user, suspendedAt: new Date().toISOString(), suspendedBy: account.id };
+    await kv.set(`user:${userId}`, updatedUser);
     
-    if (keysToDelete.length > 0) {
-      await kv.mdel(keysToDelete);
+    return c.json({ user: adminUser(updatedUser) });
+  } catch (error) {
+    console.log('Suspend user error:', error);
+    return c.json({ error: 'Failed to suspend user: ' + error.message }, 500);
+  }
+});
+
+// Lift a suspension
+app.delete("/make-server-b017b546/admin/users/:id/suspension", requirePermission('users:manage'), async (c) => {
+  try {
+    const user = await kv.get(`user:${c.req.param('id')}`);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
     }
     
-    return c.json({ success: true, message: 'Post berhasil dihapus' });
+    const { suspendedAt, suspendedBy, ...updatedUser } = user;
+    await kv.set(`user:${user.id}`, updatedUser);
+    
+    return c.json({ user: adminUser(updatedUser) });
   } catch (error) {
-    console.log('Delete post error:', error);
-    return c.json({ error: 'Failed to delete post: ' + error.message }, 500);
+    console.log('Unsuspend user error:', error);
+    return c.json({ error: 'Failed to lift suspension: ' + error.message }, 500);
   }
 });
 
-// ============ LIKE ROUTES ============
+// ============ NOTIFICATION ROUTES ============
 
-// Toggle like
-app.post("/make-server-b017b546/posts/:id/like", async (c) => {
+// Get the signed-in user's notifications, most recent activity first
+app.get("/make-server-b017b546/notifications", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
       return c.json({ error: authResult.error }, 401);
     }
     
-    const postId = c.req.param('id');
-    const post = await kv.get(`post:${postId}`);
-    
-    if (!post) {
-      return c.json({ error: 'Post not found' }, 404);
+    const prefix = `notification:${authResult.user.id}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
     }
     
-    const likeKey = `like:${postId}:${authResult.user.id}`;
-    const existingLike = await kv.get(likeKey);
+    const { values, nextCursor } = await getIndexPage(prefix, page);
+    // Actors muted or blocked after the notification was created are left out as well
+    const hiddenUserIds = await getHiddenUserIds(authResult.user.id, true);
+    const actorIdsOf = (notification: any) => (notification.actorIds || [notification.actorId])
+      .filter((id: string) => !hiddenUserIds.has(id));
     
-    if (existingLike) {
-      // Unlike
-      await kv.del(likeKey);
-      return c.json({ liked: false });
-    } else {
-      // Like
-      await kv.set(likeKey, {
-        postId,
-        userId: authResult.user.id,
-        createdAt: new Date().toISOString()
-      });
-      return c.json({ liked: true });
+    const users = await getUsersByIds([...new Set(values.flatMap(actorIdsOf))] as string[]);
+    const usersById = new Map(users.map((user: any) => [user.id, user]));
+    const posts = await getPostsByIds([...new Set(values.map((n: any) => n.postId).filter(Boolean))] as string[]);
+    const postsById = new Map(posts.map((post: any) => [post.id, post]));
+    
+    // Notifications whose actors are all hidden are dropped; moderator notices never had actors
+    const isVisible = (notification: any) =>
+      (notification.actorIds || [notification.actorId]).length === 0 || actorIdsOf(notification).length > 0;
+    
+    const notifications = values.filter(isVisible).map((notification: any) => {
+      const actorIds = actorIdsOf(notification);
+      const post = notification.postId ? postsById.get(notification.postId) : null;
+      
+      return {
+        id: notification.id,
+        type: notification.type,
+        actors: actorIds
+          .map((id: string) => usersById.get(id))
+          .filter(Boolean)
+          .map((user: any) => ({ id: user.id, name: user.name, handle: user.handle, avatar: user.avatar })),
+        actorsCount: Math.max(
+          (notification.actorsCount ?? 1) - ((notification.actorIds || [notification.actorId]).length - actorIds.length),
+          actorIds.length
+        ),
+        postId: notification.postId || null,
+        commentId: notification.commentId || null,
+        post: post ? { id: post.id, content: post.content.slice(0, 100) } : null,
+        createdAt: notification.updatedAt || notification.createdAt,
+        readAt: notification.readAt
+      };
+    });
+    
+    return c.json({ notifications, nextCursor });
+  } catch (error) {
+    console.log('Get notifications error:', error);
+    return c.json({ error: 'Failed to get notifications: ' + error.message }, 500);
+  }
+});
+
+// Get the number of unread notifications, for the badge in the app header
+app.get("/make-server-b017b546/notifications/unread-count", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
     }
+    
+    const stats = await kv.get(notificationStatsKey(authResult.user.id))
+      || await recountUnreadNotifications(authResult.user.id);
+    
+    return c.json({ unreadCount: stats.unreadCount });
   } catch (error) {
-    console.log('Toggle like error:', error);
-    return c.json({ error: 'Failed to toggle like: ' + error.message }, 500);
+    console.log('Get unread count error:', error);
+    return c.json({ error: 'Failed to get unread count: ' + error.message }, 500);
   }
 });
 
-// Check if user liked post
-app.get("/make-server-b017b546/posts/:id/like/check", async (c) => {
+// Mark notifications as read. Without `ids`, every notification is marked.
+app.post("/make-server-b017b546/notifications/read", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
-      return c.json({ liked: false });
+      return c.json({ error: authResult.error }, 401);
     }
     
-    const postId = c.req.param('id');
-    const likeKey = `like:${postId}:${authResult.user.id}`;
-    const existingLike = await kv.get(likeKey);
+    const { ids } = await c.req.json().catch(() => ({}));
+    const selectedIds = Array.isArray(ids) ? new Set(ids) : null;
     
-    return c.json({ liked: !!existingLike });
+    const notifications = await kv.getByPrefix(`notification:${authResult.user.id}:`);
+    const readAt = new Date().toISOString();
+    const toMark = notifications
+      .filter((notification: any) => !notification.readAt && (!selectedIds || selectedIds.has(notification.id)))
+      .map((notification: any) => ({ ...notification, readAt }));
+    
+    if (toMark.length > 0) {
+      await kv.mset(toMark.map(notificationKey), toMark);
+    }
+    
+    const stats = selectedIds
+      ? await adjustUnreadNotifications(authResult.user.id, -toMark.length)
+      : await recountUnreadNotifications(authResult.user.id);
+    
+    return c.json({ success: true, unreadCount: stats.unreadCount });
   } catch (error) {
-    console.log('Check like error:', error);
-    return c.json({ liked: false });
+    console.log('Mark notifications read error:', error);
+    return c.json({ error: 'Failed to mark notifications as read: ' + error.message }, 500);
   }
 });
 
-// ============ COMMENT ROUTES ============
+// ============ MESSAGE ROUTES ============
 
-// Get comments for a post
-app.get("/make-server-b017b546/posts/:id/comments", async (c) => {
+// List the signed-in user's conversations, most recent message first
+app.get("/make-server-b017b546/conversations", async (c) => {
   try {
-    const postId = c.req.param('id');
-    const comments = await kv.getByPrefix(`comment:${postId}:`);
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
     
-    // Sort by createdAt ascending
-    comments.sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const userId = authResult.user.id;
+    const prefix = `inbox:${userId}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
+    }
     
-    // Get user info for each comment
-    const commentsWithUser = await Promise.all(
-      comments.map(async (comment: any) => {
-        const user = await kv.get(`user:${comment.userId}`);
+    const { values, nextCursor } = await getIndexPage(prefix, page);
+    const conversationIds = values.map((entry: any) => entry.conversationId);
+    if (conversationIds.length === 0) {
+      return c.json({ conversations: [], nextCursor });
+    }
+    
+    const conversations = await kv.mget(conversationIds.map((id: string) => `conversation:${id}`));
+    const conversationsById = new Map(conversations.map((conversation: any) => [conversation.id, conversation]));
+    const states = await kv.mget(conversationIds.map((id: string) => conversationStateKey(userId, id)));
+    const statesById = new Map(states.map((state: any) => [state.conversationId, state]));
+    
+    const otherUserIds = conversations.map((conversation: any) =>
+      conversation.participantIds.find((id: string) => id !== userId)
+    );
+    const users = await getUsersByIds([...new Set(otherUserIds)] as string[]);
+    const usersById = new Map(users.map((user: any) => [user.id, user]));
+    
+    const result = conversationIds
+      .map((id: string) => conversationsById.get(id))
+      .filter(Boolean)
+      .map((conversation: any) => {
+        const otherUser = usersById.get(conversation.participantIds.find((id: string) => id !== userId));
         return {
-          ...comment,
-          user: user ? { id: user.id, name: user.name, avatar: user.avatar } : null
+          id: conversation.id,
+          user: otherUser ? { id: otherUser.id, name: otherUser.name, handle: otherUser.handle, avatar: otherUser.avatar } : null,
+          lastMessage: conversation.lastMessage,
+          updatedAt: conversation.updatedAt,
+          unreadCount: statesById.get(conversation.id)?.unreadCount || 0
         };
-      })
-    );
+      });
     
-    return c.json({ comments: commentsWithUser });
+    return c.json({ conversations: result, nextCursor });
   } catch (error) {
-    console.log('Get comments error:', error);
-    return c.json({ error: 'Failed to get comments: ' + error.message }, 500);
+    console.log('Get conversations error:', error);
+    return c.json({ error: 'Failed to get conversations: ' + error.message }, 500);
   }
 });
 
-// Add comment
-app.post("/make-server-b017b546/posts/:id/comments", async (c) => {
+// Start a conversation with another user, or return the existing one.
+// It only shows up in the inbox once the first message is sent.
+app.post("/make-server-b017b546/conversations", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
       return c.json({ error: authResult.error }, 401);
     }
     
-    const postId = c.req.param('id');
-    const { content } = await c.req.json();
-    
-    if (!content || content.trim().length === 0) {
-      return c.json({ error: 'Comment content is required' }, 400);
+    const { userId: recipientId } = await c.req.json();
+    if (!recipientId) {
+      return c.json({ error: 'Recipient is required' }, 400);
+    }
+    if (recipientId === authResult.user.id) {
+      return c.json({ error: 'Cannot message yourself' }, 400);
     }
     
-    const post = await kv.get(`post:${postId}`);
-    if (!post) {
-      return c.json({ error: 'Post not found' }, 404);
+    const recipient = await kv.get(`user:${recipientId}`);
+    if (!recipient) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    const restriction = await getMessageRestriction(authResult.user.id, recipient);
+    if (restriction) {
+      return c.json({ error: restriction }, 403);
     }
     
-    // Auto-create user profile if not exists
-    let user = await kv.get(`user:${authResult.user.id}`);
-    if (!user) {
-      console.log('User profile not found for comment, creating from auth metadata...');
-      user = {
-        id: authResult.user.id,
-        email: authResult.user.email || '',
-        name: authResult.user.user_metadata?.name || authResult.user.email?.split('@')[0] || 'User',
-        bio: '',
-        avatar: '',
-        createdAt: new Date().toISOString()
+    const conversationId = conversationIdFor(authResult.user.id, recipientId);
+    let conversation = await kv.get(`conversation:${conversationId}`);
+    if (!conversation) {
+      const now = new Date().toISOString();
+      conversation = {
+        id: conversationId,
+        participantIds: [authResult.user.id, recipientId].sort(),
+        lastMessage: null,
+        createdAt: now,
+        updatedAt: now
       };
-      await kv.set(`user:${authResult.user.id}`, user);
+      await kv.set(`conversation:${conversationId}`, conversation);
     }
     
-    const commentId = crypto.randomUUID();
-    const comment = {
-      id: commentId,
-      postId,
-      userId: authResult.user.id,
-      content: content.trim(),
-      createdAt: new Date().toISOString()
-    };
+    return c.json({ conversation });
+  } catch (error) {
+    console.log('Start conversation error:', error);
+    return c.json({ error: 'Failed to start conversation: ' + error.message }, 500);
+  }
+});
+
+// Get a conversation with the other participant and how far they have read
+app.get("/make-server-b017b546/conversations/:id", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
     
-    await kv.set(`comment:${postId}:${commentId}`, comment);
+    const result = await getConversationFor(c.req.param('id'), authResult.user.id);
+    if (result.error) {
+      return c.json({ error: result.error }, result.status);
+    }
     
-    return c.json({ 
-      comment: {
-        ...comment,
-        user: user ? { id: user.id, name: user.name, avatar: user.avatar } : null
+    const { conversation } = result;
+    const otherUserId = conversation.participantIds.find((id: string) => id !== authResult.user.id);
+    const otherUser = await kv.get(`user:${otherUserId}`);
+    const [state, otherState] = await Promise.all([
+      kv.get(conversationStateKey(authResult.user.id, conversation.id)),
+      kv.get(conversationStateKey(otherUserId, conversation.id))
+    ]);
+    
+    return c.json({
+      conversation: {
+        id: conversation.id,
+        user: otherUser ? { id: otherUser.id, name: otherUser.name, handle: otherUser.handle, avatar: otherUser.avatar } : null,
+        lastMessage: conversation.lastMessage,
+        updatedAt: conversation.updatedAt,
+        unreadCount: state?.unreadCount || 0,
+        otherLastReadAt: otherState?.lastReadAt || null
       }
     });
   } catch (error) {
-    console.log('Add comment error:', error);
-    return c.json({ error: 'Failed to add comment: ' + error.message }, 500);
+    console.log('Get conversation error:', error);
+    return c.json({ error: 'Failed to get conversation: ' + error.message }, 500);
   }
 });
 
-// ============ FOLLOW ROUTES ============
-
-// Seed random Indonesian users
-app.post("/make-server-b017b546/seed-users", async (c) => {
+// Get messages in a conversation, newest first
+app.get("/make-server-b017b546/conversations/:id/messages", async (c) => {
   try {
-    // Check if users already seeded
-    const existingUsers = await kv.get('seed:users:done');
-    if (existingUsers) {
-      return c.json({ success: true, message: 'Users already seeded' });
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
     }
-
-    const indonesianUsers = [
-      {
-        id: 'seed-user-1',
-        email: 'budi.santoso@example.com',
-        name: 'Budi Santoso',
-        bio: 'Penggemar teknologi dan kopi ☕ | Jakarta',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Budi',
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days ago
-      },
-      {
-        id: 'seed-user-2',
-        email: 'siti.nurhaliza@example.com',
-        name: 'Siti Nurhaliza',
-        bio: 'Content creator & foodie 🍜 | Bandung',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Siti',
-        createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'seed-user-3',
-        email: 'ahmad.wijaya@example.com',
-        name: 'Ahmad Wijaya',
-        bio: 'Traveler & photographer 📸 | Yogyakarta',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Ahmad',
-        createdAt: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'seed-user-4',
-        email: 'rina.kartika@example.com',
-        name: 'Rina Kartika',
-        bio: 'UI/UX Designer | Love minimalism 🎨 | Surabaya',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Rina',
-        createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'seed-user-5',
-        email: 'deni.prasetyo@example.com',
-        name: 'Deni Prasetyo',
-        bio: 'Fullstack Developer | Coffee enthusiast ☕ | Bali',
-        avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Deni',
-        createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString()
-      }
-    ];
-
-    // Store all users
-    for (const user of indonesianUsers) {
-      await kv.set(`user:${user.id}`, user);
+    
+    const result = await getConversationFor(c.req.param('id'), authResult.user.id);
+    if (result.error) {
+      return c.json({ error: result.error }, result.status);
     }
-
-    // Create some sample posts
-    const samplePosts = [
-      {
-        userId: 'seed-user-1',
-        content: 'Pagi ini cobain kopi baru dari kedai langganan. Rasanya mantap banget! ☕✨',
-        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        userId: 'seed-user-2',
-        content: 'Lagi nyari rekomendasi tempat makan enak di Bandung nih. Ada yang punya saran? 🍜',
-        createdAt: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        userId: 'seed-user-3',
-        content: 'Sunset di Jogja hari ini luar biasa indah! 🌅 #photography',
-        createdAt: new Date(Date.now() - 8 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        userId: 'seed-user-4',
-        content: 'Baru selesai redesign website klien. Seneng banget liat hasil akhirnya! 🎨💻',
-        createdAt: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        userId: 'seed-user-5',
-        content: 'Siapa yang lagi belajar React? Share tips dan trik kalian dong! 💻⚛️',
-        createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-      }
-    ];
-
-    for (const post of samplePosts) {
-      const postId = crypto.randomUUID();
-      await kv.set(`post:${postId}`, {
-        id: postId,
-        ...post
-      });
+    
+    const prefix = `message:${result.conversation.id}:`;
+    const page = parsePageQuery(c, prefix);
+    if (!page) {
+      return c.json({ error: 'Invalid cursor' }, 400);
     }
-
-    // Mark as seeded
-    await kv.set('seed:users:done', { done: true, timestamp: new Date().toISOString() });
-
-    return c.json({ success: true, message: 'Users seeded successfully' });
+    
+    const { values, nextCursor } = await getIndexPage(prefix, page);
+    return c.json({ messages: values, nextCursor });
   } catch (error) {
-    console.log('Seed users error:', error);
-    return c.json({ error: 'Failed to seed users: ' + error.message }, 500);
+    console.log('Get messages error:', error);
+    return c.json({ error: 'Failed to get messages: ' + error.message }, 500);
   }
 });
 
-// Toggle follow
-app.post("/make-server-b017b546/follows/:id", async (c) => {
+// Send a message. The conversation moves to the top of both inboxes.
+app.post("/make-server-b017b546/conversations/:id/messages", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
       return c.json({ error: authResult.error }, 401);
     }
     
-    const targetUserId = c.req.param('id');
+    const result = await getConversationFor(c.req.param('id'), authResult.user.id);
+    if (result.error) {
+      return c.json({ error: result.error }, result.status);
+    }
     
-    if (targetUserId === authResult.user.id) {
-      return c.json({ error: 'Cannot follow yourself' }, 400);
+    const { content } = await c.req.json();
+    if (!content || !content.trim()) {
+      return c.json({ error: 'Message content is required' }, 400);
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return c.json({ error: `Message must be ${MAX_MESSAGE_LENGTH} characters or less` }, 400);
     }
     
-    const targetUser = await kv.get(`user:${targetUserId}`);
-    if (!targetUser) {
+    const { conversation } = result;
+    const senderId = authResult.user.id;
+    const recipientId = conversation.participantIds.find((id: string) => id !== senderId);
+    const recipient = await kv.get(`user:${recipientId}`);
+    if (!recipient) {
       return c.json({ error: 'User not found' }, 404);
     }
+    const restriction = await getMessageRestriction(senderId, recipient);
+    if (restriction) {
+      return c.json({ error: restriction }, 403);
+    }
     
-    const followKey = `follow:${authResult.user.id}:${targetUserId}`;
-    const existingFollow = await kv.get(followKey);
+    const message = {
+      id: crypto.randomUUID(),
+      conversationId: conversation.id,
+      senderId,
+      content: content.trim(),
+      createdAt: new Date().toISOString()
+    };
+    const updatedConversation = {
+      ...conversation,
+      lastMessage: message,
+      updatedAt: message.createdAt
+    };
+    const recipientState = await kv.get(conversationStateKey(recipientId, conversation.id));
     
-    if (existingFollow) {
-      // Unfollow
-      await kv.del(followKey);
-      return c.json({ following: false });
-    } else {
-      // Follow
-      await kv.set(followKey, {
-        followerId: authResult.user.id,
-        followingId: targetUserId,
-        createdAt: new Date().toISOString()
-      });
-      return c.json({ following: true });
+    // The inbox key holds the latest message time, so a new message re-keys both entries
+    if (conversation.lastMessage) {
+      await kv.mdel(conversation.participantIds.map((id: string) => inboxKey(id, conversation)));
     }
+    await kv.mset(
+      [
+        messageKey(message),
+        `conversation:${conversation.id}`,
+        ...conversation.participantIds.map((id: string) => inboxKey(id, updatedConversation)),
+        conversationStateKey(senderId, conversation.id),
+        conversationStateKey(recipientId, conversation.id)
+      ],
+      [
+        message,
+        updatedConversation,
+        ...conversation.participantIds.map(() => ({ conversationId: conversation.id })),
+        { userId: senderId, conversationId: conversation.id, unreadCount: 0, lastReadAt: message.createdAt },
+        {
+          userId: recipientId,
+          conversationId: conversation.id,
+          unreadCount: (recipientState?.unreadCount || 0) + 1,
+          lastReadAt: recipientState?.lastReadAt || null
+        }
+      ]
+    );
+    
+    return c.json({ message });
   } catch (error) {
-    console.log('Toggle follow error:', error);
-    return c.json({ error: 'Failed to toggle follow: ' + error.message }, 500);
+    console.log('Send message error:', error);
+    return c.json({ error: 'Failed to send message: ' + error.message }, 500);
   }
 });
 
-// Check if user follows another user
-app.get("/make-server-b017b546/follows/:id/check", async (c) => {
+// Mark every message in a conversation as read
+app.post("/make-server-b017b546/conversations/:id/read", async (c) => {
   try {
-    const authResult = await verifyAuth(c.req.raw);
+    const authResult = await verifyAuth(c);
     if (authResult.error) {
-      return c.json({ following: false });
+      return c.json({ error: authResult.error }, 401);
     }
     
-    const targetUserId = c.req.param('id');
-    const followKey = `follow:${authResult.user.id}:${targetUserId}`;
-    const existingFollow = await kv.get(followKey);
+    const result = await getConversationFor(c.req.param('id'), authResult.user.id);
+    if (result.error) {
+      return c.json({ error: result.error }, result.status);
+    }
     
-    return c.json({ following: !!existingFollow });
+    await kv.set(conversationStateKey(authResult.user.id, result.conversation.id), {
+      userId: authResult.user.id,
+      conversationId: result.conversation.id,
+      unreadCount: 0,
+      lastReadAt: new Date().toISOString()
+    });
+    
+    return c.json({ success: true });
   } catch (error) {
-    console.log('Check follow error:', error);
-    return c.json({ following: false });
+    console.log('Mark conversation read error:', error);
+    return c.json({ error: 'Failed to mark conversation as read: ' + error.message }, 500);
+  }
+});
+
+// Get the number of unread messages across all conversations, for the inbox badge
+app.get("/make-server-b017b546/messages/unread-count", async (c) => {
+  try {
+    const authResult = await verifyAuth(c);
+    if (authResult.error) {
+      return c.json({ error: authResult.error }, 401);
+    }
+    
+    const states = await kv.getByPrefix(`conversationstate:${authResult.user.id}:`);
+    const unreadCount = states.reduce((total: number, state: any) => total + (state.unreadCount || 0), 0);
+    
+    return c.json({ unreadCount });
+  } catch (error) {
+    console.log('Get unread messages count error:', error);
+    return c.json({ error: 'Failed to get unread messages count: ' + error.message }, 500);
+  }
+});
+
+// ============ REALTIME ROUTES ============
+
+// Keeps idle connections from being closed by proxies between the client and the function
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
+// Stream live updates as server-sent events: post.created, post.stats and comment.created.
+// Events only carry ids and counters, so clients fetch anything else they need.
+app.get("/make-server-b017b546/events", (c) => {
+  return streamSSE(c, async (stream) => {
+    const unsubscribe = await realtime.subscribe((event) => {
+      stream.writeSSE({ event: event.type, data: JSON.stringify(event.data) }).catch(() => {});
+    });
+    
+    try {
+      while (!stream.aborted) {
+        await stream.write(': ping\n\n');
+        await stream.sleep(EVENT_STREAM_HEARTBEAT_MS);
+      }
+    } finally {
+      unsubscribe();
+    }
+  }, async (error) => {
+    console.log('Event stream error:', error);
+  });
+});
+
+// ============ MAINTENANCE ROUTES ============
+
+// Recompute post counters from the raw like:/comment:/repost:/quote: keys.
+// Rewrites every post's counters, so it needs the maintenance:run permission.
+app.post("/make-server-b017b546/maintenance/recount", requirePermission('maintenance:run'), async (c) => {
+  try {
+    const posts = await kv.getByPrefix('post:');
+    for (const post of posts) {
+      await recountPostStats(post.id);
+    }
+    
+    return c.json({ success: true, postsRecounted: posts.length });
+  } catch (error) {
+    console.log('Recount counters error:', error);
+    return c.json({ error: 'Failed to recount counters: ' + error.message }, 500);
   }
 });
 
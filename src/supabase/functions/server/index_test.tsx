@@ -0,0 +1,88 @@
+// Route-level checks for roles and suspensions, run against the in-memory store and local auth.
+// Run with:
+//   deno test --allow-env src/supabase/functions/server/index_test.tsx
+import { assertEquals } from "jsr:@std/assert@1";
+
+Deno.env.set("KV_BACKEND", "memory");
+Deno.env.set("AUTH_BACKEND", "local");
+Deno.env.set("AUTH_LOCAL_SECRET", "test-secret");
+Deno.env.set("STORAGE_BACKEND", "local");
+Deno.env.set("REALTIME_BACKEND", "local");
+
+// index.tsx starts the server when imported; keep its handler instead of listening on a port
+let handler: (request: Request) => Response | Promise<Response>;
+const serve = Deno.serve;
+// deno-lint-ignore no-explicit-any
+(Deno as any).serve = (fetchHandler: typeof handler) => {
+  handler = fetchHandler;
+};
+await import("./index.tsx");
+// deno-lint-ignore no-explicit-any
+(Deno as any).serve = serve;
+
+const request = async (method: string, path: string, token?: string, body?: unknown) => {
+  const response = await handler(new Request(`http://localhost/make-server-b017b546${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }));
+  return { status: response.status, data: await response.json() };
+};
+
+const signUp = async (handle: string) => {
+  const email = `${handle}@example.com`;
+  await request("POST", "/auth/signup", undefined, { email, password: "password123", name: handle, handle });
+  const { data } = await request("POST", "/auth/login", undefined, { email, password: "password123" });
+  return { id: data.user.id as string, token: data.accessToken as string };
+};
+
+const admin = await signUp("test_admin");
+Deno.env.set("ADMIN_USER_IDS", admin.id);
+
+const moderator = await signUp("test_moderator");
+await request("PUT", `/admin/users/${moderator.id}/role`, admin.token, { role: "moderator" });
+
+Deno.test("maintenance recount needs the maintenance:run permission", async () => {
+  const user = await signUp("recount_user");
+
+  assertEquals((await request("POST", "/maintenance/recount")).status, 401);
+  assertEquals((await request("POST", "/maintenance/recount", user.token)).status, 403);
+  assertEquals((await request("POST", "/maintenance/recount", moderator.token)).status, 403);
+  assertEquals((await request("POST", "/maintenance/recount", admin.token)).status, 200);
+});
+
+Deno.test("role checks refuse accounts without the permission", async () => {
+  const user = await signUp("plain_user");
+
+  const denied = await request("GET", "/moderation/reports", user.token);
+  assertEquals(denied.status, 403);
+  assertEquals(denied.data.error, "You do not have permission to do this");
+
+  assertEquals((await request("GET", "/moderation/reports", moderator.token)).status, 200);
+  assertEquals((await request("GET", "/admin/users", moderator.token)).status, 403);
+  assertEquals((await request("GET", "/admin/users", admin.token)).status, 200);
+});
+
+Deno.test("suspended accounts cannot post or comment but can still read", async () => {
+  const author = await signUp("post_author");
+  const { data: { post } } = await request("POST", "/posts", author.token, { content: "Hello" });
+
+  const user = await signUp("suspended_user");
+  assertEquals((await request("POST", `/admin/users/${user.id}/suspension`, admin.token)).status, 200);
+
+  const postAttempt = await request("POST", "/posts", user.token, { content: "Still here?" });
+  assertEquals(postAttempt.status, 403);
+  assertEquals(postAttempt.data.error, "Your account is suspended");
+
+  const commentAttempt = await request("POST", `/posts/${post.id}/comments`, user.token, { content: "Hi" });
+  assertEquals(commentAttempt.status, 403);
+  assertEquals(commentAttempt.data.error, "Your account is suspended");
+
+  assertEquals((await request("GET", `/posts/${post.id}`, user.token)).status, 200);
+
+  assertEquals((await request("DELETE", `/admin/users/${user.id}/suspension`, admin.token)).status, 200);
+  assertEquals((await request("POST", "/posts", user.token, { content: "Back again" })).status, 200);
+});
@@ -0,0 +1,13 @@
+// Storage backends implement this interface so kv_store.tsx can switch between them.
+// Values are JSON-serializable; mget and getByPrefix only return values for keys that exist.
+export interface KvAdapter {
+  set(key: string, value: any): Promise<void>;
+  setIfAbsent(key: string, value: any): Promise<boolean>;
+  get(key: string): Promise<any>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+  getPageByPrefix(prefix: string, limit: number, before?: string): Promise<{ key: string; value: any }[]>;
+}
@@ -0,0 +1,67 @@
+// Runs the same checks against every local key-value backend. Run with:
+//   deno test --allow-read --allow-write src/supabase/functions/server/kv_adapter_test.tsx
+import { assertEquals } from "jsr:@std/assert@1";
+import type { KvAdapter } from "./kv_adapter.tsx";
+import { createMemoryAdapter } from "./kv_memory.tsx";
+import { createSqliteAdapter } from "./kv_sqlite.tsx";
+
+const backends: [string, () => KvAdapter][] = [
+  ["memory", () => createMemoryAdapter()],
+  ["sqlite", () => createSqliteAdapter(":memory:")],
+];
+
+for (const [name, create] of backends) {
+  Deno.test(`${name}: getPageByPrefix returns keys in descending order`, async () => {
+    const kv = create();
+    await kv.mset(["feed:1", "feed:3", "feed:2", "other:9"], [1, 3, 2, 9]);
+
+    assertEquals(await kv.getPageByPrefix("feed:", 10), [
+      { key: "feed:3", value: 3 },
+      { key: "feed:2", value: 2 },
+      { key: "feed:1", value: 1 },
+    ]);
+  });
+
+  Deno.test(`${name}: getPageByPrefix honours limit and before`, async () => {
+    const kv = create();
+    await kv.mset(["feed:1", "feed:2", "feed:3", "feed:4"], [1, 2, 3, 4]);
+
+    assertEquals(await kv.getPageByPrefix("feed:", 2), [
+      { key: "feed:4", value: 4 },
+      { key: "feed:3", value: 3 },
+    ]);
+    assertEquals(await kv.getPageByPrefix("feed:", 2, "feed:3"), [
+      { key: "feed:2", value: 2 },
+      { key: "feed:1", value: 1 },
+    ]);
+    assertEquals(await kv.getPageByPrefix("feed:", 2, "feed:1"), []);
+  });
+
+  Deno.test(`${name}: getPageByPrefix treats LIKE wildcards in the prefix literally`, async () => {
+    const kv = create();
+    await kv.mset(["tag:a_b:1", "tag:axb:1", "tag:a%:1"], ["underscore", "x", "percent"]);
+
+    assertEquals(await kv.getPageByPrefix("tag:a_b:", 10), [{ key: "tag:a_b:1", value: "underscore" }]);
+    assertEquals(await kv.getPageByPrefix("tag:a%:", 10), [{ key: "tag:a%:1", value: "percent" }]);
+  });
+
+  Deno.test(`${name}: mget returns only values for keys that exist`, async () => {
+    const kv = create();
+    await kv.mset(["user:1", "user:2"], [{ id: "1" }, { id: "2" }]);
+
+    assertEquals(await kv.mget(["user:1", "user:missing", "user:2"]), [{ id: "1" }, { id: "2" }]);
+    assertEquals(await kv.mget([]), []);
+  });
+
+  Deno.test(`${name}: setIfAbsent only stores the first value`, async () => {
+    const kv = create();
+
+    assertEquals(await kv.setIfAbsent("handle:alice", "user-1"), true);
+    assertEquals(await kv.setIfAbsent("handle:alice", "user-2"), false);
+    assertEquals(await kv.get("handle:alice"), "user-1");
+
+    await kv.del("handle:alice");
+    assertEquals(await kv.setIfAbsent("handle:alice", "user-2"), true);
+    assertEquals(await kv.get("handle:alice"), "user-2");
+  });
+}
@@ -0,0 +1,58 @@
+// Key-value adapter that keeps everything in process memory. Data is lost on restart,
+// which makes it a good fit for local development and tests.
+import type { KvAdapter } from "./kv_adapter.tsx";
+
+export function createMemoryAdapter(): KvAdapter {
+  const store = new Map<string, any>();
+
+  // Values are copied on the way in and out, like a real database round trip
+  const copy = (value: any) => value === undefined ? undefined : structuredClone(value);
+
+  return {
+    async set(key, value) {
+      store.set(key, copy(value));
+    },
+
+    async setIfAbsent(key, value) {
+      if (store.has(key)) {
+        return false;
+      }
+      store.set(key, copy(value));
+      return true;
+    },
+
+    async get(key) {
+      return copy(store.get(key));
+    },
+
+    async del(key) {
+      store.delete(key);
+    },
+
+    async mset(keys, values) {
+      keys.forEach((key, i) => store.set(key, copy(values[i])));
+    },
+
+    async mget(keys) {
+      return keys.filter((key) => store.has(key)).map((key) => copy(store.get(key)));
+    },
+
+    async mdel(keys) {
+      keys.forEach((key) => store.delete(key));
+    },
+
+    async getByPrefix(prefix) {
+      return [...store.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => copy(value));
+    },
+
+    async getPageByPrefix(prefix, limit, before) {
+      return [...store.keys()]
+        .filter((key) => key.startsWith(prefix) && (!before || key < before))
+        .sort((a, b) => (a < b ? 1 : a > b ? -1 : 0))
+        .slice(0, limit)
+        .map((key) => ({ key, value: copy(store.get(key)) }));
+    },
+  };
+}
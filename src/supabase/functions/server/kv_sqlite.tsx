@@ -0,0 +1,89 @@
+// Key-value adapter backed by a local SQLite file, for running the server without a Supabase project.
+import { DB } from "https://deno.land/x/sqlite@v3.9.1/mod.ts";
+import type { KvAdapter } from "./kv_adapter.tsx";
+
+export function createSqliteAdapter(path: string): KvAdapter {
+  const db = new DB(path);
+  db.execute(`
+    CREATE TABLE IF NOT EXISTS kv_store (
+      key TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+
+  const placeholders = (count: number) => Array(count).fill('?').join(', ');
+
+  // Runs several writes as one transaction so multi-key updates are all-or-nothing
+  const inTransaction = (fn: () => void) => {
+    db.execute('BEGIN');
+    try {
+      fn();
+      db.execute('COMMIT');
+    } catch (error) {
+      db.execute('ROLLBACK');
+      throw error;
+    }
+  };
+
+  // instr(...) = 1 is an exact, case-sensitive prefix match, unlike LIKE
+  return {
+    async set(key, value) {
+      db.query('INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)', [key, JSON.stringify(value)]);
+    },
+
+    async setIfAbsent(key, value) {
+      db.query('INSERT OR IGNORE INTO kv_store (key, value) VALUES (?, ?)', [key, JSON.stringify(value)]);
+      return db.changes > 0;
+    },
+
+    async get(key) {
+      const rows = db.query<[string]>('SELECT value FROM kv_store WHERE key = ?', [key]);
+      return rows.length > 0 ? JSON.parse(rows[0][0]) : undefined;
+    },
+
+    async del(key) {
+      db.query('DELETE FROM kv_store WHERE key = ?', [key]);
+    },
+
+    async mset(keys, values) {
+      inTransaction(() => {
+        keys.forEach((key, i) => {
+          db.query('INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)', [key, JSON.stringify(values[i])]);
+        });
+      });
+    },
+
+    async mget(keys) {
+      if (keys.length === 0) {
+        return [];
+      }
+      const rows = db.query<[string]>(`SELECT value FROM kv_store WHERE key IN (${placeholders(keys.length)})`, keys);
+      return rows.map(([value]) => JSON.parse(value));
+    },
+
+    async mdel(keys) {
+      if (keys.length === 0) {
+        return;
+      }
+      db.query(`DELETE FROM kv_store WHERE key IN (${placeholders(keys.length)})`, keys);
+    },
+
+    async getByPrefix(prefix) {
+      const rows = db.query<[string]>('SELECT value FROM kv_store WHERE instr(key, ?) = 1', [prefix]);
+      return rows.map(([value]) => JSON.parse(value));
+    },
+
+    async getPageByPrefix(prefix, limit, before) {
+      const rows = before
+        ? db.query<[string, string]>(
+            'SELECT key, value FROM kv_store WHERE instr(key, ?) = 1 AND key < ? ORDER BY key DESC LIMIT ?',
+            [prefix, before, limit]
+          )
+        : db.query<[string, string]>(
+            'SELECT key, value FROM kv_store WHERE instr(key, ?) = 1 ORDER BY key DESC LIMIT ?',
+            [prefix, limit]
+          );
+      return rows.map(([key, value]) => ({ key, value: JSON.parse(value) }));
+    },
+  };
+}
@@ -1,87 +1,83 @@
-/* AUTOGENERATED FILE - DO NOT EDIT CONTENTS */
+// This file provides a simple key-value interface for storing app data. It should be adequate for most small-scale use cases.
+//
+// The storage backend is chosen with the KV_BACKEND environment variable:
+//   supabase (default) - the kv_store_b017b546 table in the Supabase project
+//   memory             - an in-process Map, cleared on restart
+//   sqlite             - a local SQLite file at KV_SQLITE_PATH (default ./kv_store.sqlite)
+import type { KvAdapter } from "./kv_adapter.tsx";
 
-/* Table schema:
-CREATE TABLE kv_store_b017b546 (
-  key TEXT NOT NULL PRIMARY KEY,
-  value JSONB NOT NULL
-);
-*/
+let adapterPromise: Promise<KvAdapter> | null = null;
 
-// View at https://supabase.com/dashboard/project/ykcbjxeoyulrnylfqpfa/database/tables
+// Backends are imported lazily so a deployment only loads the one it uses
+async function loadAdapter(): Promise<KvAdapter> {
+  const backend = Deno.env.get("KV_BACKEND") || "supabase";
 
-// This file provides a simple key-value interface for storing Figma Make data. It should be adequate for most small-scale use cases.
-import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+  switch (backend) {
+    case "supabase": {
+      const { createSupabaseAdapter } = await import("./kv_supabase.tsx");
+      return createSupabaseAdapter();
+    }
+    case "memory": {
+      const { createMemoryAdapter } = await import("./kv_memory.tsx");
+      return createMemoryAdapter();
+    }
+    case "sqlite": {
+      const { createSqliteAdapter } = await import("./kv_sqlite.tsx");
+      return createSqliteAdapter(Deno.env.get("KV_SQLITE_PATH") || "./kv_store.sqlite");
+    }
+    default:
+      throw new Error(`Unknown KV_BACKEND: ${backend}`);
+  }
+}
 
-const client = () => createClient(
-  Deno.env.get("SUPABASE_URL"),
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
-);
+const adapter = () => {
+  if (!adapterPromise) {
+    adapterPromise = loadAdapter();
+  }
+  return adapterPromise;
+};
 
 // Set stores a key-value pair in the database.
 export const set = async (key: string, value: any): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_b017b546").upsert({
-    key,
-    value
-  });
-  if (error) {
-    throw new Error(error.message);
-  }
+  return (await adapter()).set(key, value);
+};
+
+// SetIfAbsent stores a key-value pair only if the key does not exist yet. Returns whether it was stored.
+export const setIfAbsent = async (key: string, value: any): Promise<boolean> => {
+  return (await adapter()).setIfAbsent(key, value);
 };
 
 // Get retrieves a key-value pair from the database.
 export const get = async (key: string): Promise<any> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_b017b546").select("value").eq("key", key).maybeSingle();
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.value;
+  return (await adapter()).get(key);
 };
 
 // Delete deletes a key-value pair from the database.
 export const del = async (key: string): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_b017b546").delete().eq("key", key);
-  if (error) {
-    throw new Error(error.message);
-  }
+  return (await adapter()).del(key);
 };
 
 // Sets multiple key-value pairs in the database.
 export const mset = async (keys: string[], values: any[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_b017b546").upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
-  if (error) {
-    throw new Error(error.message);
-  }
+  return (await adapter()).mset(keys, values);
 };
 
 // Gets multiple key-value pairs from the database.
 export const mget = async (keys: string[]): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_b017b546").select("value").in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
+  return (await adapter()).mget(keys);
 };
 
 // Deletes multiple key-value pairs from the database.
 export const mdel = async (keys: string[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_b017b546").delete().in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
+  return (await adapter()).mdel(keys);
 };
 
 // Search for key-value pairs by prefix.
 export const getByPrefix = async (prefix: string): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_b017b546").select("key, value").like("key", prefix + "%");
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
+  return (await adapter()).getByPrefix(prefix);
+};
+
+// Gets a page of key-value pairs by prefix, ordered by key descending. When `before` is given, only keys sorting before it are returned.
+export const getPageByPrefix = async (prefix: string, limit: number, before?: string): Promise<{ key: string; value: any }[]> => {
+  return (await adapter()).getPageByPrefix(prefix, limit, before);
 };
@@ -0,0 +1,126 @@
+/* Table schema:
+CREATE TABLE kv_store_b017b546 (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL
+);
+*/
+
+// View at https://supabase.com/dashboard/project/ykcbjxeoyulrnylfqpfa/database/tables
+
+// Key-value adapter backed by the Supabase table kv_store_b017b546. This is the default backend.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { KvAdapter } from "./kv_adapter.tsx";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+// Builds a LIKE pattern matching keys that start with `prefix`. Keys contain user input such as
+// handles and hashtags, so LIKE wildcards in them are escaped with a backslash, Postgres' default
+// escape character.
+const prefixPattern = (prefix: string) => prefix.replace(/[\\%_]/g, "\\$&") + "%";
+
+export function createSupabaseAdapter(): KvAdapter {
+  return {
+    // Set stores a key-value pair in the database.
+    async set(key, value) {
+      const supabase = client()
+      const { error } = await supabase.from("kv_store_b017b546").upsert({
+        key,
+        value
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    // SetIfAbsent stores a key-value pair only if the key does not exist yet. Returns whether it was stored.
+    async setIfAbsent(key, value) {
+      const supabase = client()
+      const { error } = await supabase.from("kv_store_b017b546").insert({
+        key,
+        value
+      });
+      // 23505 is Postgres' unique_violation: the key already exists
+      if (error?.code === "23505") {
+        return false;
+      }
+      if (error) {
+        throw new Error(error.message);
+      }
+      return true;
+    },
+
+    // Get retrieves a key-value pair from the database.
+    async get(key) {
+      const supabase = client()
+      const { data, error } = await supabase.from("kv_store_b017b546").select("value").eq("key", key).maybeSingle();
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data?.value;
+    },
+
+    // Delete deletes a key-value pair from the database.
+    async del(key) {
+      const supabase = client()
+      const { error } = await supabase.from("kv_store_b017b546").delete().eq("key", key);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    // Sets multiple key-value pairs in the database.
+    async mset(keys, values) {
+      const supabase = client()
+      const { error } = await supabase.from("kv_store_b017b546").upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    // Gets multiple key-value pairs from the database.
+    async mget(keys) {
+      const supabase = client()
+      const { data, error } = await supabase.from("kv_store_b017b546").select("value").in("key", keys);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data?.map((d) => d.value) ?? [];
+    },
+
+    // Deletes multiple key-value pairs from the database.
+    async mdel(keys) {
+      const supabase = client()
+      const { error } = await supabase.from("kv_store_b017b546").delete().in("key", keys);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    // Search for key-value pairs by prefix.
+    async getByPrefix(prefix) {
+      const supabase = client()
+      const { data, error } = await supabase.from("kv_store_b017b546").select("key, value").like("key", prefixPattern(prefix));
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data?.map((d) => d.value) ?? [];
+    },
+
+    // Gets a page of key-value pairs by prefix, ordered by key descending.
+    async getPageByPrefix(prefix, limit, before) {
+      const supabase = client()
+      let query = supabase.from("kv_store_b017b546").select("key, value").like("key", prefixPattern(prefix));
+      if (before) {
+        query = query.lt("key", before);
+      }
+      const { data, error } = await query.order("key", { ascending: false }).limit(limit);
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data ?? [];
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// This file provides a small publish/subscribe interface for pushing live updates to clients,
+// such as new posts and changed like counts. Clients receive them from the SSE route.
+//
+// The realtime backend is chosen with the REALTIME_BACKEND environment variable:
+//   local (default) - in-process delivery, only reaches clients of the same instance
+//   supabase        - a Supabase Realtime broadcast channel shared by all instances
+import type { RealtimeAdapter, RealtimeEvent } from "./realtime_adapter.tsx";
+
+export type { RealtimeEvent };
+
+let adapterPromise: Promise<RealtimeAdapter> | null = null;
+
+// Backends are imported lazily so a deployment only loads the one it uses
+async function loadAdapter(): Promise<RealtimeAdapter> {
+  const backend = Deno.env.get("REALTIME_BACKEND") || "local";
+
+  switch (backend) {
+    case "local": {
+      const { createLocalRealtimeAdapter } = await import("./realtime_local.tsx");
+      return createLocalRealtimeAdapter();
+    }
+    case "supabase": {
+      const { createSupabaseRealtimeAdapter } = await import("./realtime_supabase.tsx");
+      return createSupabaseRealtimeAdapter();
+    }
+    default:
+      throw new Error(`Unknown REALTIME_BACKEND: ${backend}`);
+  }
+}
+
+const adapter = () => {
+  if (!adapterPromise) {
+    adapterPromise = loadAdapter();
+    // Allow a retry if the backend failed to initialize, e.g. the channel subscription timed out
+    adapterPromise.catch(() => {
+      adapterPromise = null;
+    });
+  }
+  return adapterPromise;
+};
+
+// Publish sends an event to every subscriber. Live updates are best effort, so a failure
+// is logged instead of failing the request that caused the event.
+export const publish = async (type: string, data: Record<string, unknown>): Promise<void> => {
+  try {
+    await (await adapter()).publish({ type, data });
+  } catch (error) {
+    console.log('Realtime publish error:', error);
+  }
+};
+
+// Subscribe registers a listener for all events and returns a function that removes it.
+export const subscribe = async (listener: (event: RealtimeEvent) => void): Promise<() => void> => {
+  return (await adapter()).subscribe(listener);
+};
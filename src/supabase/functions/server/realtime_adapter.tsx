@@ -0,0 +1,11 @@
+// Realtime backends implement this interface so realtime.tsx can switch between them.
+// Events are fanned out to every subscriber, including the instance that published them.
+export interface RealtimeEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+export interface RealtimeAdapter {
+  publish(event: RealtimeEvent): Promise<void>;
+  subscribe(listener: (event: RealtimeEvent) => void): () => void;
+}
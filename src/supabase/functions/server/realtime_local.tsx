@@ -0,0 +1,22 @@
+// Realtime adapter that delivers events within this process. This is the default backend.
+// Clients connected to another instance of the function do not receive the events.
+import type { RealtimeAdapter, RealtimeEvent } from "./realtime_adapter.tsx";
+
+export function createLocalRealtimeAdapter(): RealtimeAdapter {
+  const listeners = new Set<(event: RealtimeEvent) => void>();
+
+  return {
+    async publish(event) {
+      for (const listener of listeners) {
+        listener(event);
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
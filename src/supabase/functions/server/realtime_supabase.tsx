@@ -0,0 +1,50 @@
+// Realtime adapter backed by a Supabase Realtime broadcast channel, so events published by
+// one instance of the function reach clients connected to any other instance.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { RealtimeAdapter, RealtimeEvent } from "./realtime_adapter.tsx";
+
+const CHANNEL_NAME = "make-b017b546-events";
+const BROADCAST_EVENT = "event";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+export async function createSupabaseRealtimeAdapter(): Promise<RealtimeAdapter> {
+  const listeners = new Set<(event: RealtimeEvent) => void>();
+
+  // `self` makes the channel echo our own broadcasts, so local subscribers get them too
+  const channel = client().channel(CHANNEL_NAME, { config: { broadcast: { self: true } } });
+  channel.on("broadcast", { event: BROADCAST_EVENT }, ({ payload }) => {
+    for (const listener of listeners) {
+      listener(payload as RealtimeEvent);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    channel.subscribe((status, error) => {
+      if (status === "SUBSCRIBED") {
+        resolve();
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        reject(new Error(error?.message || `Realtime channel ${status}`));
+      }
+    });
+  });
+
+  return {
+    async publish(event) {
+      const result = await channel.send({ type: "broadcast", event: BROADCAST_EVENT, payload: event });
+      if (result !== "ok") {
+        throw new Error(`Realtime broadcast failed: ${result}`);
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+// This file provides a small file storage interface for user uploads such as post images.
+//
+// The storage backend is chosen with the STORAGE_BACKEND environment variable:
+//   supabase (default) - the public make-b017b546-media bucket in Supabase Storage
+//   local              - files under STORAGE_LOCAL_DIR (default ./storage), served by the
+//                        media route at STORAGE_PUBLIC_URL
+import type { StorageAdapter } from "./storage_adapter.tsx";
+
+export const backend = () => Deno.env.get("STORAGE_BACKEND") || "supabase";
+export const localDir = () => Deno.env.get("STORAGE_LOCAL_DIR") || "./storage";
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+// Backends are imported lazily so a deployment only loads the one it uses
+async function loadAdapter(): Promise<StorageAdapter> {
+  switch (backend()) {
+    case "supabase": {
+      const { createSupabaseStorageAdapter } = await import("./storage_supabase.tsx");
+      return createSupabaseStorageAdapter();
+    }
+    case "local": {
+      const { createLocalStorageAdapter } = await import("./storage_local.tsx");
+      return createLocalStorageAdapter(
+        localDir(),
+        Deno.env.get("STORAGE_PUBLIC_URL") || "http://localhost:8000/make-server-b017b546/media/files",
+      );
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend()}`);
+  }
+}
+
+const adapter = () => {
+  if (!adapterPromise) {
+    adapterPromise = loadAdapter();
+    // Allow a retry if the backend failed to initialize, e.g. bucket creation hit a network error
+    adapterPromise.catch(() => {
+      adapterPromise = null;
+    });
+  }
+  return adapterPromise;
+};
+
+// Upload stores a file at the given path, replacing any existing file.
+export const upload = async (path: string, data: Uint8Array, contentType: string): Promise<void> => {
+  return (await adapter()).upload(path, data, contentType);
+};
+
+// Remove deletes files by path. Missing files are ignored.
+export const remove = async (paths: string[]): Promise<void> => {
+  return (await adapter()).remove(paths);
+};
+
+// PublicUrl returns the canonical URL a browser can load the file from.
+export const publicUrl = async (path: string): Promise<string> => {
+  return (await adapter()).publicUrl(path);
+};
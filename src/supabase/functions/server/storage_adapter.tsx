@@ -0,0 +1,7 @@
+// File storage backends implement this interface so storage.tsx can switch between them.
+// Paths are relative to the media bucket, e.g. "posts/<userId>/<id>.jpg".
+export interface StorageAdapter {
+  upload(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  remove(paths: string[]): Promise<void>;
+  publicUrl(path: string): string;
+}
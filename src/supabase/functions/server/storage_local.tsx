@@ -0,0 +1,52 @@
+// Storage adapter that writes files to a local directory, for development without a
+// Supabase project. Files are served back by the GET /media/files/* route in index.tsx.
+import type { StorageAdapter } from "./storage_adapter.tsx";
+
+export function createLocalStorageAdapter(rootDir: string, publicBaseUrl: string): StorageAdapter {
+  // Paths come from the server itself, but never let one escape the root directory
+  const resolve = (path: string) => {
+    if (path.split("/").some((segment) => segment === ".." || segment === "")) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return `${rootDir}/${path}`;
+  };
+
+  return {
+    async upload(path, data) {
+      const filePath = resolve(path);
+      await Deno.mkdir(filePath.slice(0, filePath.lastIndexOf("/")), { recursive: true });
+      await Deno.writeFile(filePath, data);
+    },
+
+    async remove(paths) {
+      for (const path of paths) {
+        try {
+          await Deno.remove(resolve(path));
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            throw error;
+          }
+        }
+      }
+    },
+
+    publicUrl(path) {
+      return `${publicBaseUrl}/${path}`;
+    },
+  };
+}
+
+// Reads a stored file back for the local media route. Returns null when it does not exist.
+export async function readLocalFile(rootDir: string, path: string): Promise<Uint8Array | null> {
+  if (path.split("/").some((segment) => segment === ".." || segment === "")) {
+    return null;
+  }
+  try {
+    return await Deno.readFile(`${rootDir}/${path}`);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+// Storage adapter backed by a public Supabase Storage bucket. This is the default backend.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { StorageAdapter } from "./storage_adapter.tsx";
+
+const BUCKET_NAME = "make-b017b546-media";
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+export async function createSupabaseStorageAdapter(): Promise<StorageAdapter> {
+  const supabase = client();
+
+  // Create the bucket on first use so a fresh project works without manual setup
+  const { data: buckets, error: listError } = await supabase.storage.listBuckets();
+  if (listError) {
+    throw new Error(listError.message);
+  }
+  if (!buckets?.some((bucket) => bucket.name === BUCKET_NAME)) {
+    const { error } = await supabase.storage.createBucket(BUCKET_NAME, { public: true });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  return {
+    async upload(path, data, contentType) {
+      const { error } = await supabase.storage.from(BUCKET_NAME).upload(path, data, {
+        contentType,
+        upsert: true
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) {
+        return;
+      }
+      const { error } = await supabase.storage.from(BUCKET_NAME).remove(paths);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+
+    publicUrl(path) {
+      return supabase.storage.from(BUCKET_NAME).getPublicUrl(path).data.publicUrl;
+    },
+  };
+}
@@ -30,11 +30,12 @@ export async function fetchWithAuth(
   console.log('✅ Got access token, length:', accessToken.length);
   console.log('   First 30 chars:', accessToken.substring(0, 30) + '...');
   
-  // Set Authorization header
+  // Set Authorization header. FormData bodies need the browser to set their own multipart Content-Type.
+  const contentTypeHeader = options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' };
   const headers = {
     ...options.headers,
     'Authorization': `Bearer ${accessToken}`,
-    'Content-Type': 'application/json'
+    ...contentTypeHeader
   };
   
   // Make first attempt
@@ -64,7 +65,7 @@ export async function fetchWithAuth(
     const newHeaders = {
       ...options.headers,
       'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
+      ...contentTypeHeader
     };
     
     console.log('🔄 Retrying request with new token...');
@@ -132,4 +133,20 @@ export async function putWithAuth(path: string, body?: any): Promise<Response> {
       body: body ? JSON.stringify(body) : undefined
     }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Helper untuk upload file (multipart/form-data) dengan auto-refresh
+ */
+export async function uploadWithAuth(path: string, file: File): Promise<Response> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  return fetchWithAuth(
+    `https://${projectId}.supabase.co/functions/v1/make-server-b017b546${path}`,
+    {
+      method: 'POST',
+      body: formData
+    }
+  );
+}
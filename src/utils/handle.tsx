@@ -0,0 +1,47 @@
+import { projectId, publicAnonKey } from './supabase/info';
+
+// Sama dengan aturan handle di server
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,20}$/;
+export const HANDLE_CHANGE_COOLDOWN_DAYS = 30;
+
+// Sama dengan RESERVED_HANDLES di server
+const RESERVED_HANDLES = new Set([
+  'admin', 'administrator', 'moderator', 'support', 'crow', 'official',
+  'settings', 'search', 'posts', 'followers', 'following', 'me', 'null', 'undefined'
+]);
+
+/**
+ * Merapikan input handle: tanpa "@" di depan dan huruf kecil semua
+ */
+export function normalizeHandle(value: string) {
+  return value.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Mengecek apakah handle belum dipakai akun lain dan tidak termasuk handle yang dicadangkan
+ */
+export async function isHandleAvailable(handle: string, currentUserId?: string) {
+  if (RESERVED_HANDLES.has(handle)) {
+    return false;
+  }
+
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/users/by-handle/${encodeURIComponent(handle)}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`
+      }
+    }
+  );
+
+  if (response.status === 404) {
+    return true;
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Gagal mengecek handle');
+  }
+
+  return data.user.id === currentUserId;
+}
@@ -0,0 +1,37 @@
+/**
+ * Memotong gambar menjadi persegi di bagian tengah lalu mengecilkannya ke ukuran `size` piksel
+ */
+export async function cropToSquare(file: File, size: number): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const outputSize = Math.min(side, size);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Browser tidak mendukung pengolahan gambar');
+  }
+
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    outputSize,
+    outputSize
+  );
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!blob) {
+    throw new Error('Gagal memproses gambar');
+  }
+
+  return new File([blob], 'avatar.jpg', { type: 'image/jpeg' });
+}
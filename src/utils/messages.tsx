@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { getWithAuth, postWithAuth } from './api';
+import { navigate, conversationPath } from './router';
+
+// Dipicu setelah percakapan dibaca supaya badge pesan langsung diperbarui
+const UNREAD_COUNT_EVENT = 'crow:unread-messages';
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Memberi tahu badge pesan bahwa jumlah pesan belum dibaca telah berubah
+ */
+export function refreshUnreadMessageCount() {
+  window.dispatchEvent(new Event(UNREAD_COUNT_EVENT));
+}
+
+/**
+ * Hook jumlah pesan belum dibaca, diperbarui berkala dan setiap `refreshKey` berubah
+ */
+export function useUnreadMessageCount(refreshKey: unknown): number {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = async () => {
+    try {
+      const response = await getWithAuth('/messages/unread-count');
+      const data = await response.json();
+
+      if (response.ok) {
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Fetch unread messages count error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    window.addEventListener(UNREAD_COUNT_EVENT, fetchUnreadCount);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(UNREAD_COUNT_EVENT, fetchUnreadCount);
+    };
+  }, []);
+
+  return unreadCount;
+}
+
+/**
+ * Membuka percakapan dengan pengguna lain, atau membuatnya jika belum ada
+ */
+export async function openConversation(userId: string) {
+  const response = await postWithAuth('/conversations', { userId });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Gagal membuka percakapan');
+  }
+
+  navigate(conversationPath(data.conversation.id));
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { getWithAuth } from './api';
+
+// Dipicu setelah notifikasi ditandai dibaca supaya badge langsung diperbarui
+const UNREAD_COUNT_EVENT = 'crow:unread-notifications';
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Memberi tahu badge notifikasi bahwa jumlah belum dibaca telah berubah
+ */
+export function refreshUnreadCount() {
+  window.dispatchEvent(new Event(UNREAD_COUNT_EVENT));
+}
+
+/**
+ * Hook jumlah notifikasi belum dibaca, diperbarui berkala dan setiap `refreshKey` berubah
+ */
+export function useUnreadNotificationCount(refreshKey: unknown): number {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = async () => {
+    try {
+      const response = await getWithAuth('/notifications/unread-count');
+      const data = await response.json();
+
+      if (response.ok) {
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Fetch unread count error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    window.addEventListener(UNREAD_COUNT_EVENT, fetchUnreadCount);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(UNREAD_COUNT_EVENT, fetchUnreadCount);
+    };
+  }, []);
+
+  return unreadCount;
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+import { projectId, publicAnonKey } from './supabase/info';
+
+type Listener = (data: any) => void;
+
+const RECONNECT_DELAY_MS = 3000;
+
+const listeners = new Map<string, Set<Listener>>();
+let connection: AbortController | null = null;
+
+function dispatch(block: string) {
+  let type = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return;
+  }
+
+  const data = JSON.parse(dataLines.join('\n'));
+  listeners.get(type)?.forEach(listener => listener(data));
+}
+
+// EventSource tidak bisa mengirim header Authorization, jadi stream dibaca lewat fetch
+async function readStream(signal: AbortSignal) {
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-b017b546/events`,
+    {
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`,
+        'Accept': 'text/event-stream'
+      },
+      signal
+    }
+  );
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += value.replace(/\r\n/g, '\n');
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+    blocks.forEach(dispatch);
+  }
+}
+
+function connect() {
+  const controller = new AbortController();
+  connection = controller;
+
+  (async () => {
+    // Server memutus koneksi secara berkala, jadi sambungkan ulang selama masih ada pendengar
+    while (!controller.signal.aborted) {
+      try {
+        await readStream(controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Event stream error:', error);
+      }
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+    }
+  })();
+}
+
+function subscribe(type: string, listener: Listener) {
+  if (!listeners.has(type)) {
+    listeners.set(type, new Set());
+  }
+  listeners.get(type)!.add(listener);
+
+  if (!connection) {
+    connect();
+  }
+
+  return () => {
+    listeners.get(type)?.delete(listener);
+    if (listeners.get(type)?.size === 0) {
+      listeners.delete(type);
+    }
+
+    if (listeners.size === 0 && connection) {
+      connection.abort();
+      connection = null;
+    }
+  };
+}
+
+/**
+ * Hook yang memanggil `handler` setiap server mengirim event realtime bertipe `type`.
+ * Semua komponen berbagi satu koneksi ke server.
+ */
+export function useRealtimeEvent(type: string, handler: (data: any) => void) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribe(type, data => handlerRef.current(data)), [type]);
+}
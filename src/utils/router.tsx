@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+
+export type Route =
+  | { name: 'feed' }
+  | { name: 'search'; query: string }
+  | { name: 'profile'; userId: string }
+  | { name: 'post'; postId: string }
+  | { name: 'hashtag'; tag: string }
+  | { name: 'settings' }
+  | { name: 'notifications' }
+  | { name: 'messages' }
+  | { name: 'bookmarks'; collectionId: string | null }
+  | { name: 'conversation'; conversationId: string }
+  | { name: 'moderation' }
+  | { name: 'admin' }
+  | { name: 'notFound' };
+
+// Fired after pushState/replaceState, which unlike back/forward don't emit popstate
+const NAVIGATE_EVENT = 'crow:navigate';
+
+export const feedPath = () => '/';
+export const searchPath = (query = '') => query ? `/search?q=${encodeURIComponent(query)}` : '/search';
+export const profilePath = (userId: string) => `/u/${encodeURIComponent(userId)}`;
+export const postPath = (postId: string) => `/p/${encodeURIComponent(postId)}`;
+export const hashtagPath = (tag: string) => `/tag/${encodeURIComponent(tag.toLowerCase())}`;
+export const settingsPath = () => '/settings';
+export const notificationsPath = () => '/notifications';
+export const messagesPath = () => '/messages';
+export const bookmarksPath = (collectionId?: string | null) =>
+  collectionId ? `/saved?collection=${encodeURIComponent(collectionId)}` : '/saved';
+export const conversationPath = (conversationId: string) => `/messages/${encodeURIComponent(conversationId)}`;
+export const moderationPath = () => '/moderation';
+export const adminPath = () => '/admin';
+
+/**
+ * Mengubah URL menjadi route aplikasi
+ */
+export function parseRoute(pathname: string, search: string): Route {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return { name: 'notFound' };
+  }
+
+  if (segments.length === 0) {
+    return { name: 'feed' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'search') {
+    return { name: 'search', query: new URLSearchParams(search).get('q') || '' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'settings') {
+    return { name: 'settings' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'notifications') {
+    return { name: 'notifications' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'saved') {
+    return { name: 'bookmarks', collectionId: new URLSearchParams(search).get('collection') };
+  }
+
+  if (segments.length === 1 && segments[0] === 'moderation') {
+    return { name: 'moderation' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'admin') {
+    return { name: 'admin' };
+  }
+
+  if (segments.length === 1 && segments[0] === 'messages') {
+    return { name: 'messages' };
+  }
+
+  if (segments.length === 2 && segments[0] === 'messages') {
+    return { name: 'conversation', conversationId: segments[1] };
+  }
+
+  if (segments.length === 2 && segments[0] === 'u') {
+    return { name: 'profile', userId: segments[1] };
+  }
+
+  if (segments.length === 2 && segments[0] === 'p') {
+    return { name: 'post', postId: segments[1] };
+  }
+
+  if (segments.length === 2 && segments[0] === 'tag') {
+    return { name: 'hashtag', tag: segments[1].toLowerCase() };
+  }
+
+  return { name: 'notFound' };
+}
+
+/**
+ * Pindah ke path lain tanpa reload, dengan entri baru di history browser
+ */
+export function navigate(path: string, options: { replace?: boolean } = {}) {
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+    window.scrollTo({ top: 0 });
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Hook yang mengembalikan route saat ini dan ikut berubah saat navigasi atau tombol back
+ */
+export function useRoute(): Route {
+  const readRoute = () => parseRoute(window.location.pathname, window.location.search);
+  const [route, setRoute] = useState<Route>(readRoute);
+
+  useEffect(() => {
+    const handleChange = () => setRoute(readRoute());
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(NAVIGATE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(NAVIGATE_EVENT, handleChange);
+    };
+  }, []);
+
+  return route;
+}
+
+interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+/**
+ * Anchor yang bernavigasi lewat router, tetapi tetap bisa dibuka di tab baru
+ */
+export function Link({ to, onClick, children, ...props }: LinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}